@@ -0,0 +1,17 @@
+import AuditLog from '@/components/AuditLog'
+import Header from '@/components/Header'
+import React from 'react'
+
+const AuditLogPage = () => {
+  return (
+    <div className='max-w-6xl mx-auto'>
+      <Header />
+      <main className='flex w-full flex-col items-center gap-6'>
+        <h1>Audit log</h1>
+        <AuditLog />
+      </main>
+    </div>
+  )
+}
+
+export default AuditLogPage
\ No newline at end of file
@@ -0,0 +1,17 @@
+import AdminUsers from '@/components/AdminUsers'
+import Header from '@/components/Header'
+import React from 'react'
+
+const Users = () => {
+  return (
+    <div className='max-w-6xl mx-auto'>
+      <Header />
+      <main className='flex w-full flex-col items-center gap-6'>
+        <h1>Users</h1>
+        <AdminUsers />
+      </main>
+    </div>
+  )
+}
+
+export default Users
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import {
+  findMockUser,
+  isMockAuth,
+  MOCK_AUTH_COOKIE,
+  MOCK_SESSION_COOKIE,
+} from '@/lib/mockAuth/config'
+import {
+  emitMockWebhook,
+  mockClerkSession,
+  mockClerkUser,
+} from '@/lib/mockAuth/server'
+
+// The signed-in mock user, if any
+export async function GET() {
+  if (!isMockAuth) return notFound()
+  const cookieStore = await cookies()
+  const user = findMockUser(cookieStore.get(MOCK_AUTH_COOKIE)?.value)
+  const sessionId = user ? cookieStore.get(MOCK_SESSION_COOKIE)?.value : null
+  return NextResponse.json({ user, sessionId: sessionId ?? null })
+}
+
+// Signs in as a mock user, syncing them to Convex through the webhook route
+export async function POST(request: Request) {
+  if (!isMockAuth) return notFound()
+  const { userId } = (await request.json()) as { userId?: string }
+  const user = findMockUser(userId)
+  if (!user) {
+    return NextResponse.json({ error: 'Unknown mock user' }, { status: 400 })
+  }
+
+  const sessionId = `sess_mock_${crypto.randomUUID()}`
+  await emitMockWebhook('user.updated', mockClerkUser(user))
+  await emitMockWebhook(
+    'session.created',
+    mockClerkSession(user, sessionId, 'active'),
+  )
+
+  const cookieStore = await cookies()
+  cookieStore.set(MOCK_AUTH_COOKIE, user.id, { path: '/', sameSite: 'lax' })
+  cookieStore.set(MOCK_SESSION_COOKIE, sessionId, { path: '/', sameSite: 'lax' })
+  return NextResponse.json({ user, sessionId })
+}
+
+// Signs out, ending the mock Clerk session
+export async function DELETE() {
+  if (!isMockAuth) return notFound()
+  const cookieStore = await cookies()
+  const user = findMockUser(cookieStore.get(MOCK_AUTH_COOKIE)?.value)
+  const sessionId = cookieStore.get(MOCK_SESSION_COOKIE)?.value
+  if (user && sessionId) {
+    await emitMockWebhook(
+      'session.ended',
+      mockClerkSession(user, sessionId, 'ended'),
+    )
+  }
+  cookieStore.delete(MOCK_AUTH_COOKIE)
+  cookieStore.delete(MOCK_SESSION_COOKIE)
+  return new NextResponse(null, { status: 204 })
+}
+
+function notFound() {
+  return new NextResponse(null, { status: 404 })
+}
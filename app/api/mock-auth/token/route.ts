@@ -0,0 +1,17 @@
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { findMockUser, isMockAuth, MOCK_AUTH_COOKIE } from '@/lib/mockAuth/config'
+import { signMockToken } from '@/lib/mockAuth/server'
+
+// A Convex JWT for the signed-in mock user, stands in for Clerk's getToken()
+export async function GET() {
+  if (!isMockAuth) {
+    return new NextResponse(null, { status: 404 })
+  }
+  const cookieStore = await cookies()
+  const user = findMockUser(cookieStore.get(MOCK_AUTH_COOKIE)?.value)
+  if (!user) {
+    return NextResponse.json({ token: null }, { status: 401 })
+  }
+  return NextResponse.json({ token: await signMockToken(user) })
+}
@@ -0,0 +1,17 @@
+import Header from '@/components/Header'
+import ApiKeys from '@/components/ApiKeys'
+import React from 'react'
+
+const ApiKeysPage = () => {
+  return (
+    <div className='max-w-6xl mx-auto'>
+      <Header />
+      <main className='flex w-full flex-col items-center gap-6'>
+        <h1>API keys</h1>
+        <ApiKeys />
+      </main>
+    </div>
+  )
+}
+
+export default ApiKeysPage
\ No newline at end of file
@@ -1,12 +1,28 @@
 import Header from '@/components/Header'
+import ProfileCard from '@/components/ProfileCard'
+import Projects from '@/components/Projects'
+import RecentSessions from '@/components/RecentSessions'
+import { Button } from '@/components/ui/button'
+import Link from 'next/link'
 import React from 'react'
 
 const Dashboard = () => {
   return (
     <div className='max-w-6xl mx-auto'>
       <Header />
-      <main className='flex min-h-screen w-full flex-col justify-center items-center'>
+      <main className='flex min-h-screen w-full flex-col justify-center items-center gap-6'>
         <h1>Dashboard</h1>
+        <Projects />
+        <ProfileCard />
+        <RecentSessions />
+        <div className='flex gap-2'>
+          <Button asChild size='sm' variant='outline'>
+            <Link href='/dashboard/webhooks'>Manage webhooks</Link>
+          </Button>
+          <Button asChild size='sm' variant='outline'>
+            <Link href='/dashboard/api-keys'>API keys</Link>
+          </Button>
+        </div>
       </main>
     </div>
   )
@@ -0,0 +1,22 @@
+import Header from '@/components/Header'
+import ScriptEditor from '@/components/ScriptEditor'
+import { Button } from '@/components/ui/button'
+import Link from 'next/link'
+import React from 'react'
+
+const Project = async ({ params }: { params: Promise<{ id: string }> }) => {
+  const { id } = await params
+  return (
+    <div className='max-w-6xl mx-auto'>
+      <Header />
+      <main className='flex w-full flex-col items-start gap-6'>
+        <Button asChild size='sm' variant='ghost'>
+          <Link href='/dashboard'>← All projects</Link>
+        </Button>
+        <ScriptEditor projectId={id} />
+      </main>
+    </div>
+  )
+}
+
+export default Project
\ No newline at end of file
@@ -0,0 +1,17 @@
+import Header from '@/components/Header'
+import WebhookEndpoints from '@/components/WebhookEndpoints'
+import React from 'react'
+
+const Webhooks = () => {
+  return (
+    <div className='max-w-6xl mx-auto'>
+      <Header />
+      <main className='flex w-full flex-col items-center gap-6'>
+        <h1>Webhooks</h1>
+        <WebhookEndpoints />
+      </main>
+    </div>
+  )
+}
+
+export default Webhooks
\ No newline at end of file
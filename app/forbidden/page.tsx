@@ -0,0 +1,23 @@
+import Header from '@/components/Header'
+import { Button } from '@/components/ui/button'
+import Link from 'next/link'
+import React from 'react'
+
+const Forbidden = () => {
+  return (
+    <div className='max-w-6xl mx-auto'>
+      <Header />
+      <main className='flex min-h-screen w-full flex-col justify-center items-center gap-4'>
+        <h1 className='text-2xl font-bold'>403 — Access denied</h1>
+        <p className='text-muted-foreground'>
+          You don&apos;t have permission to view this page.
+        </p>
+        <Button asChild size={'sm'}>
+          <Link href='/dashboard'>Back to dashboard</Link>
+        </Button>
+      </main>
+    </div>
+  )
+}
+
+export default Forbidden
\ No newline at end of file
@@ -4,6 +4,10 @@ import "./globals.css";
 import { Toaster } from "@/components/ui/sonner";
 import { ClerkProvider } from "@clerk/nextjs";
 import ConvexClientProvider from "@/components/ConvexClientProvider";
+import MockAuthProvider from "@/components/mockAuth/MockAuthProvider";
+import { isMockAuth } from "@/lib/mockAuth/config";
+
+const AuthProvider = isMockAuth ? MockAuthProvider : ClerkProvider;
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -21,7 +25,7 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <ClerkProvider>
+    <AuthProvider>
       <html lang="en">
         <body
           className={`${geistSans.variable} font-sans antialiased`}
@@ -32,6 +36,6 @@ export default function RootLayout({
           </ConvexClientProvider>
         </body>
       </html>
-    </ClerkProvider>
+    </AuthProvider>
   );
 }
@@ -0,0 +1,20 @@
+import Header from '@/components/Header'
+import SuspensionNotice from '@/components/SuspensionNotice'
+import React from 'react'
+
+const Suspended = () => {
+  return (
+    <div className='max-w-6xl mx-auto'>
+      <Header />
+      <main className='flex min-h-screen w-full flex-col justify-center items-center gap-4'>
+        <h1 className='text-2xl font-bold'>Your account is suspended</h1>
+        <p className='text-muted-foreground'>
+          Contact support if you think this is a mistake.
+        </p>
+        <SuspensionNotice />
+      </main>
+    </div>
+  )
+}
+
+export default Suspended
\ No newline at end of file
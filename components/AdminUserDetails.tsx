@@ -0,0 +1,214 @@
+"use client";
+import { useMutation, useQuery } from "convex/react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { toastError } from "@/lib/toastError";
+import { useCurrentUser } from "./ConvexClientProvider";
+import { describeDevice, EVENT_LABELS } from "./RecentSessions";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+
+const formatDate = (timestamp?: number) =>
+  timestamp === undefined ? "—" : new Date(timestamp).toLocaleString();
+
+/**
+ * Everything the admin console knows about one user, and what can be done
+ * to their account.
+ */
+const AdminUserDetails = ({ userId }: { userId: Id<"users"> }) => {
+  const currentUser = useCurrentUser();
+  const details = useQuery(
+    api.adminUsers.get,
+    currentUser.userId === null ? "skip" : { userId },
+  );
+  const resync = useMutation(api.adminUsers.resync);
+  const impersonate = useMutation(api.impersonations.start);
+  const suspend = useMutation(api.suspensions.suspend);
+  const liftSuspension = useMutation(api.suspensions.lift);
+  const router = useRouter();
+
+  if (details === undefined) {
+    return null;
+  }
+  const { user, sessions, ownedData } = details;
+  const deleted = user.deletedAt !== undefined;
+  const suspended = user.suspendedAt !== undefined;
+
+  const run = (action: () => Promise<unknown>) => async () => {
+    try {
+      await action();
+    } catch (error) {
+      toastError(error);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex items-center gap-4">
+        <Avatar className="size-12">
+          <AvatarImage src={user.imageUrl} alt={user.name} />
+          <AvatarFallback>{user.name.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div>
+          <CardTitle>{user.name}</CardTitle>
+          <CardDescription>
+            {user.username ? `@${user.username}` : user.email}
+          </CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+          <dt className="text-muted-foreground">Clerk ID</dt>
+          <dd className="break-all">
+            <code>{user.externalId}</code>
+          </dd>
+          <dt className="text-muted-foreground">Email</dt>
+          <dd>{user.email ?? "—"}</dd>
+          <dt className="text-muted-foreground">Role</dt>
+          <dd>{user.role ?? "member"}</dd>
+          <dt className="text-muted-foreground">Created</dt>
+          <dd>{formatDate(user.clerkCreatedAt ?? user._creationTime)}</dd>
+          <dt className="text-muted-foreground">Last synced</dt>
+          <dd>{formatDate(user.clerkUpdatedAt)}</dd>
+          <dt className="text-muted-foreground">Last sign-in</dt>
+          <dd>{formatDate(user.lastSignInAt)}</dd>
+          {user.orphanedAt !== undefined && (
+            <>
+              <dt className="text-muted-foreground">Missing from Clerk</dt>
+              <dd>{formatDate(user.orphanedAt)}</dd>
+            </>
+          )}
+          {suspended && (
+            <>
+              <dt className="text-muted-foreground">Suspended</dt>
+              <dd>
+                {formatDate(user.suspendedAt)} until{" "}
+                {user.suspendedUntil === undefined
+                  ? "lifted"
+                  : formatDate(user.suspendedUntil)}
+                {user.suspensionReason && `: ${user.suspensionReason}`}
+              </dd>
+            </>
+          )}
+          {deleted && (
+            <>
+              <dt className="text-muted-foreground">Deleted</dt>
+              <dd>
+                {formatDate(user.deletedAt)}, purged {formatDate(user.purgeAt)}
+              </dd>
+            </>
+          )}
+        </dl>
+
+        <section className="space-y-2">
+          <h3 className="font-medium">Recent sessions</h3>
+          {sessions.length === 0 ? (
+            <p className="text-muted-foreground">No sessions recorded.</p>
+          ) : (
+            <ul className="space-y-1">
+              {sessions.map((event) => (
+                <li key={event._id} className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {EVENT_LABELS[event.type] ?? event.type}
+                  </Badge>
+                  <span>{describeDevice(event.device)}</span>
+                  <span className="text-muted-foreground">
+                    {formatDate(event.occurredAt)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="font-medium">Owned data</h3>
+          <ul className="space-y-1">
+            {ownedData.map(({ table, policy, count }) => (
+              <li key={table} className="flex items-center gap-2">
+                <span>{table}</span>
+                <span className="text-muted-foreground">{count}</span>
+                <Badge variant="outline">{policy} on deletion</Badge>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            className="cursor-pointer"
+            size="sm"
+            variant="outline"
+            disabled={deleted}
+            onClick={run(async () => {
+              const reason = prompt("Why are you viewing as this user?");
+              if (reason === null) return;
+              await impersonate({ userId, reason });
+              router.push("/dashboard");
+            })}
+          >
+            View as user
+          </Button>
+          {suspended ? (
+            <Button
+              className="cursor-pointer"
+              size="sm"
+              variant="outline"
+              onClick={run(async () => {
+                await liftSuspension({ userId });
+                toast.success("Suspension lifted");
+              })}
+            >
+              Lift suspension
+            </Button>
+          ) : (
+            <Button
+              className="cursor-pointer"
+              size="sm"
+              variant="destructive"
+              disabled={deleted}
+              onClick={run(async () => {
+                const reason = prompt("Why are you suspending this user?");
+                if (reason === null) return;
+                const days = prompt("For how many days? Empty for no end");
+                if (days === null) return;
+                await suspend({
+                  userId,
+                  reason,
+                  days: days.trim() === "" ? undefined : Number(days),
+                });
+                toast.success("User suspended");
+              })}
+            >
+              Suspend
+            </Button>
+          )}
+          <Button
+            className="cursor-pointer"
+            size="sm"
+            variant="outline"
+            disabled={deleted}
+            onClick={run(async () => {
+              await resync({ userId });
+              toast.success("Resync from Clerk queued");
+            })}
+          >
+            Resync from Clerk
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminUserDetails;
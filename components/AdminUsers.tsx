@@ -0,0 +1,113 @@
+"use client";
+import { FormEvent, useState } from "react";
+import { Authenticated, usePaginatedQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { cn } from "@/lib/utils";
+import AdminUserDetails from "./AdminUserDetails";
+import { useCurrentUser } from "./ConvexClientProvider";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+
+const PAGE_SIZE = 25;
+
+/**
+ * Searchable list of every user, with the selected user's details beside it.
+ */
+const UserDirectory = () => {
+  const { userId } = useCurrentUser();
+  const [search, setSearch] = useState("");
+  const [selectedUserId, setSelectedUserId] = useState<Id<"users"> | null>(
+    null,
+  );
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.adminUsers.list,
+    userId === null ? "skip" : { search },
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  const onSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    setSearch((form.get("search") as string).trim());
+  };
+
+  return (
+    <div className="grid w-full gap-6 md:grid-cols-2">
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>Search by name, email or username.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={onSubmit} className="flex gap-2">
+            <Input name="search" type="search" placeholder="ada@example.com" />
+            <Button className="cursor-pointer" size="sm" type="submit">
+              Search
+            </Button>
+          </form>
+          {status === "LoadingFirstPage" ? null : results.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No users found.</p>
+          ) : (
+            <ul className="space-y-1">
+              {results.map((user) => (
+                <li key={user._id}>
+                  <button
+                    type="button"
+                    className={cn(
+                      "w-full cursor-pointer rounded-md px-2 py-1 text-left",
+                      "text-sm hover:bg-muted",
+                      selectedUserId === user._id && "bg-muted",
+                    )}
+                    onClick={() => setSelectedUserId(user._id)}
+                  >
+                    <span className="font-medium">{user.name}</span>{" "}
+                    <span className="text-muted-foreground">
+                      {user.email ?? user.externalId}
+                    </span>{" "}
+                    {user.role && user.role !== "member" && (
+                      <Badge variant="secondary">{user.role}</Badge>
+                    )}
+                    {user.suspendedAt !== undefined && (
+                      <Badge variant="destructive">suspended</Badge>
+                    )}
+                    {user.deletedAt !== undefined && (
+                      <Badge variant="outline">deleted</Badge>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {status === "CanLoadMore" && (
+            <Button
+              className="cursor-pointer"
+              size="sm"
+              variant="outline"
+              onClick={() => loadMore(PAGE_SIZE)}
+            >
+              Load more
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+      {selectedUserId && <AdminUserDetails userId={selectedUserId} />}
+    </div>
+  );
+};
+
+const AdminUsers = () => (
+  <Authenticated>
+    <UserDirectory />
+  </Authenticated>
+);
+
+export default AdminUsers;
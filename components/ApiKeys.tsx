@@ -0,0 +1,207 @@
+"use client";
+import { FormEvent, useState } from "react";
+import { Authenticated, useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { API_KEY_SCOPES, ApiKeyScope } from "@/convex/lib/apiKeys";
+import { toastError } from "@/lib/toastError";
+import { useCurrentUser } from "./ConvexClientProvider";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "profile:read": "Read your profile",
+};
+
+const NewApiKeyForm = ({ onCreated }: { onCreated: (key: string) => void }) => {
+  const create = useMutation(api.apiKeys.create);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPES]);
+  const [expiresInDays, setExpiresInDays] = useState("");
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    try {
+      const { key } = await create({
+        name,
+        scopes,
+        expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+      });
+      setName("");
+      setExpiresInDays("");
+      onCreated(key);
+    } catch (error) {
+      toastError(error);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="api-key-name">Name</Label>
+        <Input
+          id="api-key-name"
+          placeholder="e.g. CI pipeline"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          required
+        />
+      </div>
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">Scopes</legend>
+        {API_KEY_SCOPES.map((scope) => (
+          <Label key={scope} className="font-normal">
+            <input
+              type="checkbox"
+              checked={scopes.includes(scope)}
+              onChange={(event) =>
+                setScopes((current) =>
+                  event.target.checked
+                    ? [...current, scope]
+                    : current.filter((selected) => selected !== scope),
+                )
+              }
+            />
+            {SCOPE_LABELS[scope]}
+            <code className="text-muted-foreground">{scope}</code>
+          </Label>
+        ))}
+      </fieldset>
+      <div className="space-y-2">
+        <Label htmlFor="api-key-expiry">Expires after (days, optional)</Label>
+        <Input
+          id="api-key-expiry"
+          type="number"
+          min={1}
+          step={1}
+          value={expiresInDays}
+          onChange={(event) => setExpiresInDays(event.target.value)}
+        />
+      </div>
+      <Button className="cursor-pointer" size="sm" type="submit">
+        Create key
+      </Button>
+    </form>
+  );
+};
+
+const ApiKeyList = () => {
+  const { userId } = useCurrentUser();
+  const keys = useQuery(api.apiKeys.list, userId === null ? "skip" : {});
+  const revoke = useMutation(api.apiKeys.revoke);
+  // the key is only returned once, when created
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  if (keys === undefined) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle>API keys</CardTitle>
+        <CardDescription>
+          Authenticate requests to the /api/v1 REST API with
+          Authorization: Bearer &lt;key&gt;.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newKey && (
+          <div className="space-y-2 rounded-md border p-3 text-sm">
+            <p className="font-medium">
+              Copy your new key now, it won&apos;t be shown again.
+            </p>
+            <code className="block break-all">{newKey}</code>
+            <div className="flex gap-2">
+              <Button
+                className="cursor-pointer"
+                size="sm"
+                variant="outline"
+                onClick={() => navigator.clipboard.writeText(newKey)}
+              >
+                Copy
+              </Button>
+              <Button
+                className="cursor-pointer"
+                size="sm"
+                variant="ghost"
+                onClick={() => setNewKey(null)}
+              >
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+        {keys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No keys yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {keys.map((key) => {
+              const active = key.status === "active";
+              return (
+                <li key={key._id} className="flex items-start gap-3 text-sm">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{key.name}</span>
+                      <code className="text-muted-foreground">
+                        {key.prefix}…
+                      </code>
+                      {!active && (
+                        <Badge variant="outline">{key.status}</Badge>
+                      )}
+                    </div>
+                    <p className="text-muted-foreground">
+                      {key.scopes.join(", ")} · created{" "}
+                      {new Date(key._creationTime).toLocaleDateString()}
+                      {key.expiresAt !== undefined &&
+                        ` · expires ${new Date(key.expiresAt).toLocaleDateString()}`}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {key.lastUsedAt
+                        ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}`
+                        : "Never used"}
+                    </p>
+                  </div>
+                  {active && (
+                    <Button
+                      className="cursor-pointer"
+                      size="sm"
+                      variant="destructive"
+                      onClick={async () => {
+                        if (!confirm(`Revoke "${key.name}"?`)) return;
+                        try {
+                          await revoke({ apiKeyId: key._id });
+                        } catch (error) {
+                          toastError(error);
+                        }
+                      }}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <NewApiKeyForm onCreated={setNewKey} />
+      </CardContent>
+    </Card>
+  );
+};
+
+const ApiKeys = () => (
+  <Authenticated>
+    <ApiKeyList />
+  </Authenticated>
+);
+
+export default ApiKeys;
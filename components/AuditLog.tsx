@@ -0,0 +1,173 @@
+"use client";
+import { FormEvent, useState } from "react";
+import { Authenticated, usePaginatedQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { useCurrentUser } from "./ConvexClientProvider";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+type Source = Doc<"auditLog">["source"];
+
+const SOURCES: Source[] = ["ui", "apiKey", "webhook", "system"];
+
+const SOURCE_LABELS: Record<Source, string> = {
+  ui: "UI",
+  apiKey: "API key",
+  webhook: "Webhook",
+  system: "System",
+};
+
+type Filters = {
+  source?: Source;
+  targetTable?: string;
+  targetId?: string;
+  action?: string;
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "—" : JSON.stringify(value);
+
+const FilterForm = ({ onApply }: { onApply: (filters: Filters) => void }) => {
+  const onSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const field = (name: string) =>
+      (form.get(name) as string).trim() || undefined;
+    onApply({
+      source: field("source") as Source | undefined,
+      targetTable: field("targetTable"),
+      targetId: field("targetId"),
+      action: field("action"),
+    });
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="grid grid-cols-2 gap-3">
+      <div className="space-y-2">
+        <Label htmlFor="audit-source">Source</Label>
+        <select
+          id="audit-source"
+          name="source"
+          className="h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+          defaultValue=""
+        >
+          <option value="">Any</option>
+          {SOURCES.map((source) => (
+            <option key={source} value={source}>
+              {SOURCE_LABELS[source]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-action">Action</Label>
+        <Input
+          id="audit-action"
+          name="action"
+          placeholder="users.upsertFromClerk"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-table">Table</Label>
+        <Input id="audit-table" name="targetTable" placeholder="users" />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-target">Document ID</Label>
+        <Input id="audit-target" name="targetId" />
+      </div>
+      <Button className="cursor-pointer col-span-2" size="sm" type="submit">
+        Apply filters
+      </Button>
+    </form>
+  );
+};
+
+const AuditEntry = ({ entry }: { entry: Doc<"auditLog"> }) => (
+  <li className="space-y-1 text-sm">
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="font-medium">{entry.action}</span>
+      <Badge variant="outline">{SOURCE_LABELS[entry.source]}</Badge>
+      <span className="text-muted-foreground">
+        by {entry.actorLabel} ·{" "}
+        {new Date(entry._creationTime).toLocaleString()}
+      </span>
+    </div>
+    <p className="text-muted-foreground">
+      {entry.operation} {entry.targetTable}{" "}
+      <code className="break-all">{entry.targetId}</code>
+    </p>
+    <ul className="font-mono text-xs">
+      {entry.changes.map((change) => (
+        <li key={change.field} className="break-all">
+          {change.field}: {formatValue(change.before)} →{" "}
+          {formatValue(change.after)}
+        </li>
+      ))}
+    </ul>
+  </li>
+);
+
+/**
+ * Filterable, paginated view of the audit log for admins.
+ */
+const AuditEntries = () => {
+  const { userId } = useCurrentUser();
+  const [filters, setFilters] = useState<Filters>({});
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.auditLog.list,
+    userId === null ? "skip" : filters,
+    { initialNumItems: 25 },
+  );
+
+  return (
+    <Card className="w-full max-w-3xl">
+      <CardHeader>
+        <CardTitle>Audit log</CardTitle>
+        <CardDescription>
+          Every change made through the app, the API and incoming webhooks,
+          newest first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <FilterForm onApply={setFilters} />
+        {status === "LoadingFirstPage" ? null : results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No matching entries.</p>
+        ) : (
+          <ul className="space-y-4">
+            {results.map((entry) => (
+              <AuditEntry key={entry._id} entry={entry} />
+            ))}
+          </ul>
+        )}
+        {status === "CanLoadMore" && (
+          <Button
+            className="cursor-pointer"
+            size="sm"
+            variant="outline"
+            onClick={() => loadMore(25)}
+          >
+            Load more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const AuditLog = () => (
+  <Authenticated>
+    <AuditEntries />
+  </Authenticated>
+);
+
+export default AuditLog;
@@ -1,9 +1,12 @@
 'use client'
 
-import { ReactNode } from 'react'
+import { createContext, ReactNode, useContext } from 'react'
 import { ConvexReactClient } from 'convex/react'
 import { ConvexProviderWithClerk } from 'convex/react-clerk'
 import { useAuth } from '@clerk/nextjs'
+import { useEnsureCurrentUser } from '@/hooks/useEnsureCurrentUser'
+import { isMockAuth } from '@/lib/mockAuth/config'
+import { useMockAuth } from './mockAuth/MockAuthProvider'
 
 if (!process.env.NEXT_PUBLIC_CONVEX_URL) {
   throw new Error('Missing NEXT_PUBLIC_CONVEX_URL in your .env file')
@@ -11,10 +14,38 @@ if (!process.env.NEXT_PUBLIC_CONVEX_URL) {
 
 const convex = new ConvexReactClient(process.env.NEXT_PUBLIC_CONVEX_URL)
 
-export default function ConvexClientProvider({ children }: { children: ReactNode }) {
+const useAppAuth = isMockAuth ? useMockAuth : useAuth
+
+type CurrentUser = ReturnType<typeof useEnsureCurrentUser>
+
+const CurrentUserContext = createContext<CurrentUser>({
+  isLoading: true,
+  isAuthenticated: false,
+  userId: null,
+})
+
+// Covers the gap between sign-up and the Clerk webhook creating the user row
+function EnsureCurrentUser({ children }: { children: ReactNode }) {
+  const currentUser = useEnsureCurrentUser()
   return (
-    <ConvexProviderWithClerk client={convex} useAuth={useAuth}>
+    <CurrentUserContext.Provider value={currentUser}>
       {children}
+    </CurrentUserContext.Provider>
+  )
+}
+
+/**
+ * Whether the signed-in user's row exists yet. `authed*` queries throw until
+ * it does, so pass `"skip"` to them while `userId` is null.
+ */
+export function useCurrentUser() {
+  return useContext(CurrentUserContext)
+}
+
+export default function ConvexClientProvider({ children }: { children: ReactNode }) {
+  return (
+    <ConvexProviderWithClerk client={convex} useAuth={useAppAuth}>
+      <EnsureCurrentUser>{children}</EnsureCurrentUser>
     </ConvexProviderWithClerk>
   )
 }
\ No newline at end of file
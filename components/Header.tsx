@@ -2,24 +2,36 @@
 import { Authenticated, Unauthenticated } from "convex/react";
 import { SignInButton, UserButton } from "@clerk/nextjs";
 import { Button } from "./ui/button";
+import MockUserPicker from "./mockAuth/MockUserPicker";
+import { isMockAuth } from "@/lib/mockAuth/config";
+import ImpersonationBanner from "./ImpersonationBanner";
 
 const Header = () => {
   return (
-    <div className="flex justify-between items-center my-6">
-      <h1 className="text-2xl font-bold">Logo</h1>
-      <nav>
-        <Authenticated>
-          <UserButton />
-        </Authenticated>
-        <Unauthenticated>
-          <SignInButton mode="modal">
-            <Button className="cursor-pointer" size={"sm"}>
-              Get Started
-            </Button>
-          </SignInButton>
-        </Unauthenticated>
-      </nav>
-    </div>
+    <>
+      <ImpersonationBanner />
+      <div className="flex justify-between items-center my-6">
+        <h1 className="text-2xl font-bold">Logo</h1>
+        <nav>
+          {isMockAuth ? (
+            <MockUserPicker />
+          ) : (
+            <>
+              <Authenticated>
+                <UserButton />
+              </Authenticated>
+              <Unauthenticated>
+                <SignInButton mode="modal">
+                  <Button className="cursor-pointer" size={"sm"}>
+                    Get Started
+                  </Button>
+                </SignInButton>
+              </Unauthenticated>
+            </>
+          )}
+        </nav>
+      </div>
+    </>
   );
 };
 
@@ -0,0 +1,54 @@
+"use client";
+import { useMutation, useQuery } from "convex/react";
+import { useRouter } from "next/navigation";
+import { api } from "@/convex/_generated/api";
+import { toastError } from "@/lib/toastError";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+
+/**
+ * Shown on every page while an admin is viewing the app as another user.
+ */
+const ImpersonationBanner = () => {
+  const impersonation = useQuery(api.impersonations.current);
+  const stop = useMutation(api.impersonations.stop);
+  const router = useRouter();
+
+  if (!impersonation) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "mt-4 flex flex-wrap items-center justify-between gap-2 rounded-md",
+        "border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-950",
+      )}
+    >
+      <p>
+        Viewing as <strong>{impersonation.targetName}</strong> until{" "}
+        {new Date(impersonation.expiresAt).toLocaleTimeString()}. Changes are
+        blocked.
+        {impersonation.reason && ` Reason: ${impersonation.reason}`}
+      </p>
+      <Button
+        className="cursor-pointer"
+        size="sm"
+        variant="outline"
+        onClick={async () => {
+          try {
+            await stop();
+            router.push("/admin/users");
+          } catch (error) {
+            toastError(error);
+          }
+        }}
+      >
+        Stop viewing
+      </Button>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
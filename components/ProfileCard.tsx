@@ -0,0 +1,47 @@
+"use client";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+
+const ProfileCard = () => {
+  const user = useQuery(api.users.current);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="flex items-center gap-4">
+        <Avatar className="size-12">
+          <AvatarImage src={user.imageUrl} alt={user.name} />
+          <AvatarFallback>{user.name.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div>
+          <CardTitle>{user.name}</CardTitle>
+          <CardDescription>
+            {user.username ? `@${user.username}` : user.email}
+          </CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm text-muted-foreground space-y-1">
+        {user.email && <p>Email: {user.email}</p>}
+        {user.clerkCreatedAt && (
+          <p>Member since {new Date(user.clerkCreatedAt).toLocaleDateString()}</p>
+        )}
+        {user.lastSignInAt && (
+          <p>Last sign-in {new Date(user.lastSignInAt).toLocaleString()}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfileCard;
@@ -0,0 +1,188 @@
+"use client";
+import { FormEvent, useState } from "react";
+import { Authenticated, useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import Link from "next/link";
+import { api } from "@/convex/_generated/api";
+import { toastError } from "@/lib/toastError";
+import { useCurrentUser } from "./ConvexClientProvider";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+
+type ProjectSummary = FunctionReturnType<typeof api.projects.list>[number];
+
+const NewProjectForm = () => {
+  const create = useMutation(api.projects.create);
+  const [title, setTitle] = useState("");
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    try {
+      await create({ title });
+      setTitle("");
+    } catch (error) {
+      toastError(error);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="flex gap-2">
+      <Input
+        aria-label="Project title"
+        placeholder="Untitled video"
+        value={title}
+        onChange={(event) => setTitle(event.target.value)}
+        required
+      />
+      <Button className="cursor-pointer" size="sm" type="submit">
+        New project
+      </Button>
+    </form>
+  );
+};
+
+const ProjectCard = ({ project }: { project: ProjectSummary }) => {
+  const rename = useMutation(api.projects.rename);
+  const duplicate = useMutation(api.projects.duplicate);
+  const setArchived = useMutation(api.projects.setArchived);
+  const remove = useMutation(api.projects.remove);
+  const archived = project.status === "archived";
+
+  const run = (action: () => Promise<unknown>) => async () => {
+    try {
+      await action();
+    } catch (error) {
+      toastError(error);
+    }
+  };
+
+  return (
+    <Card className="gap-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link
+            className="truncate hover:underline"
+            href={`/dashboard/projects/${project._id}`}
+          >
+            {project.title}
+          </Link>
+          {archived && <Badge variant="outline">archived</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {project.wordCount} {project.wordCount === 1 ? "word" : "words"} ·
+          updated {new Date(project.updatedAt).toLocaleDateString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex-1 text-sm text-muted-foreground">
+        {project.excerpt || "No text yet."}
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button
+          className="cursor-pointer"
+          size="sm"
+          variant="outline"
+          onClick={run(async () => {
+            const title = prompt("Rename project", project.title);
+            if (title === null) return;
+            await rename({ projectId: project._id, title });
+          })}
+        >
+          Rename
+        </Button>
+        <Button
+          className="cursor-pointer"
+          size="sm"
+          variant="outline"
+          onClick={run(() => duplicate({ projectId: project._id }))}
+        >
+          Duplicate
+        </Button>
+        <Button
+          className="cursor-pointer"
+          size="sm"
+          variant="outline"
+          onClick={run(() =>
+            setArchived({ projectId: project._id, archived: !archived }),
+          )}
+        >
+          {archived ? "Restore" : "Archive"}
+        </Button>
+        <Button
+          className="cursor-pointer"
+          size="sm"
+          variant="destructive"
+          onClick={run(async () => {
+            if (confirm(`Delete "${project.title}"? This can't be undone.`)) {
+              await remove({ projectId: project._id });
+            }
+          })}
+        >
+          Delete
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+/**
+ * The current user's projects as a grid of cards, updated live.
+ */
+const ProjectList = () => {
+  const { userId } = useCurrentUser();
+  const [showArchived, setShowArchived] = useState(false);
+  const projects = useQuery(
+    api.projects.list,
+    userId === null ? "skip" : { archived: showArchived },
+  );
+
+  return (
+    <section className="w-full space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-semibold">
+          {showArchived ? "Archived projects" : "Projects"}
+        </h2>
+        <div className="flex items-center gap-2">
+          {!showArchived && <NewProjectForm />}
+          <Button
+            className="cursor-pointer"
+            size="sm"
+            variant="ghost"
+            onClick={() => setShowArchived(!showArchived)}
+          >
+            {showArchived ? "Back to projects" : "Show archived"}
+          </Button>
+        </div>
+      </div>
+      {projects === undefined ? null : projects.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {showArchived
+            ? "No archived projects."
+            : "No projects yet, create one to get started."}
+        </p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {projects.map((project) => (
+            <ProjectCard key={project._id} project={project} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+const Projects = () => (
+  <Authenticated>
+    <ProjectList />
+  </Authenticated>
+);
+
+export default Projects;
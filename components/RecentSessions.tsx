@@ -0,0 +1,89 @@
+"use client";
+import { useQuery } from "convex/react";
+import { MonitorIcon, SmartphoneIcon } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { Badge } from "./ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+
+export const EVENT_LABELS: Record<string, string> = {
+  "session.created": "Signed in",
+  "session.ended": "Signed out",
+  "session.removed": "Session removed",
+  "session.revoked": "Session revoked",
+};
+
+export const describeDevice = (device: Doc<"authEvents">["device"]) => {
+  if (!device) return "Unknown device";
+  const browser = [device.browserName, device.browserVersion]
+    .filter(Boolean)
+    .join(" ");
+  const description = [browser, device.deviceType].filter(Boolean).join(" on ");
+  return description || "Unknown device";
+};
+
+const describeLocation = (device: Doc<"authEvents">["device"]) => {
+  if (!device) return null;
+  const place = [device.city, device.country].filter(Boolean).join(", ");
+  return [place, device.ipAddress].filter(Boolean).join(" · ") || null;
+};
+
+const RecentSessions = () => {
+  const events = useQuery(api.authEvents.listRecentSessions, { limit: 10 });
+
+  if (events === undefined) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Recent activity</CardTitle>
+        <CardDescription>Sign-ins and devices on your account</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {events.map((event) => {
+              const DeviceIcon = event.device?.isMobile
+                ? SmartphoneIcon
+                : MonitorIcon;
+              const location = describeLocation(event.device);
+              return (
+                <li key={event._id} className="flex items-start gap-3 text-sm">
+                  <DeviceIcon className="size-4 mt-0.5 text-muted-foreground" />
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {describeDevice(event.device)}
+                      </span>
+                      <Badge variant="outline">
+                        {EVENT_LABELS[event.type] ?? event.type}
+                      </Badge>
+                    </div>
+                    {location && (
+                      <p className="text-muted-foreground">{location}</p>
+                    )}
+                    <p className="text-muted-foreground">
+                      {new Date(event.occurredAt).toLocaleString()}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecentSessions;
@@ -0,0 +1,164 @@
+"use client";
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { GripVerticalIcon } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { toastError } from "@/lib/toastError";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Textarea } from "./ui/textarea";
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const run = (action: () => Promise<unknown>) => async () => {
+  try {
+    await action();
+  } catch (error) {
+    toastError(error);
+  }
+};
+
+const SceneItem = ({
+  scene,
+  isLast,
+}: {
+  scene: Doc<"scenes">;
+  isLast: boolean;
+}) => {
+  const updateText = useMutation(api.scenes.updateText);
+  const split = useMutation(api.scenes.split);
+  const mergeWithNext = useMutation(api.scenes.mergeWithNext);
+  const [text, setText] = useState(scene.text);
+  // where "Split at cursor" splits, tracked as the selection changes
+  const [cursor, setCursor] = useState(0);
+
+  return (
+    <div className="flex-1 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">
+          {scene.position + 1}. {scene.heading ?? "Untitled scene"}
+        </span>
+        <span className="text-muted-foreground">
+          {scene.startMs !== undefined &&
+            `at ${formatDuration(scene.startMs)} · `}
+          {formatDuration(scene.durationMs)}
+        </span>
+      </div>
+      <Textarea
+        aria-label={`Scene ${scene.position + 1}`}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onSelect={(event) => setCursor(event.currentTarget.selectionStart)}
+        onBlur={run(async () => {
+          if (text !== scene.text) {
+            await updateText({ sceneId: scene._id, text });
+          }
+        })}
+      />
+      <div className="flex gap-2">
+        <Button
+          className="cursor-pointer"
+          size="sm"
+          variant="outline"
+          onClick={run(async () => {
+            // the cursor is in the edited text, which may not be saved yet
+            if (text !== scene.text) {
+              await updateText({ sceneId: scene._id, text });
+            }
+            await split({ sceneId: scene._id, at: cursor });
+          })}
+        >
+          Split at cursor
+        </Button>
+        <Button
+          className="cursor-pointer"
+          size="sm"
+          variant="outline"
+          disabled={isLast}
+          onClick={run(() => mergeWithNext({ sceneId: scene._id }))}
+        >
+          Merge with next
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A project's scenes, reordered by dragging their handles.
+ */
+const SceneList = ({ scenes }: { scenes: Doc<"scenes">[] }) => {
+  const move = useMutation(api.scenes.move);
+  const [draggedId, setDraggedId] = useState<Id<"scenes"> | null>(null);
+  const [dropPosition, setDropPosition] = useState<number | null>(null);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Scenes</CardTitle>
+        <CardDescription>
+          Durations are estimated from the word count, or taken from imported
+          captions. Drag to reorder.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {scenes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scenes yet.</p>
+        ) : (
+          <ol className="space-y-4">
+            {scenes.map((scene, index) => (
+              <li
+                key={scene._id}
+                className={cn(
+                  "flex items-start gap-2 rounded-md text-sm",
+                  dropPosition === index && "ring-2 ring-ring",
+                  draggedId === scene._id && "opacity-50",
+                )}
+                onDragOver={(event) => {
+                  event.preventDefault();
+                  setDropPosition(index);
+                }}
+                onDragLeave={() => setDropPosition(null)}
+                onDrop={run(async () => {
+                  setDropPosition(null);
+                  if (draggedId !== null && draggedId !== scene._id) {
+                    await move({ sceneId: draggedId, position: index });
+                  }
+                })}
+              >
+                <span
+                  draggable
+                  aria-label="Drag to reorder"
+                  className="mt-1 cursor-grab text-muted-foreground"
+                  onDragStart={() => setDraggedId(scene._id)}
+                  onDragEnd={() => setDraggedId(null)}
+                >
+                  <GripVerticalIcon className="size-4" />
+                </span>
+                <SceneItem
+                  // reset when a split or merge changes the saved text
+                  key={scene.text}
+                  scene={scene}
+                  isLast={index === scenes.length - 1}
+                />
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SceneList;
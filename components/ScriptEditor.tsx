@@ -0,0 +1,221 @@
+"use client";
+import { useRef, useState } from "react";
+import { Authenticated, useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { Segmentation } from "@/convex/lib/scenes";
+import { toastError } from "@/lib/toastError";
+import { useCurrentUser } from "./ConvexClientProvider";
+import SceneList, { formatDuration } from "./SceneList";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+
+const SEGMENTATION_LABELS: Record<Segmentation["by"], string> = {
+  paragraph: "One scene per paragraph",
+  sentences: "A few sentences per scene",
+  heading: "One scene per # heading",
+};
+
+const SourcePanel = ({
+  project,
+  hasScenes,
+}: {
+  project: Doc<"projects">;
+  hasScenes: boolean;
+}) => {
+  const segment = useMutation(api.scenes.segment);
+  const importTranscript = useMutation(api.scenes.importTranscript);
+  const [text, setText] = useState(project.sourceText);
+  const [by, setBy] = useState<Segmentation["by"]>("paragraph");
+  const [count, setCount] = useState(3);
+  // text pasted into an empty project is split right away
+  const splitAfterPaste = useRef(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const split = async (sourceText: string) => {
+    try {
+      const scenes = await segment({
+        projectId: project._id,
+        sourceText,
+        segmentation: by === "sentences" ? { by, count } : { by },
+      });
+      toast.success(
+        `Split into ${scenes} ${scenes === 1 ? "scene" : "scenes"}`,
+      );
+    } catch (error) {
+      toastError(error);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    if (hasScenes && !confirm("Replace the current scenes?")) return;
+    try {
+      const { scenes, sourceText } = await importTranscript({
+        projectId: project._id,
+        fileName: file.name,
+        content: await file.text(),
+      });
+      setText(sourceText);
+      toast.success(
+        `Imported ${scenes} timed ${scenes === 1 ? "scene" : "scenes"}`,
+      );
+    } catch (error) {
+      toastError(error);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Script</CardTitle>
+        <CardDescription>
+          Paste or write the narration, then split it into scenes. Or import the
+          captions of a video (.srt, .vtt or YouTube JSON3) to get scenes timed
+          like the original.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          aria-label="Script"
+          className="min-h-80"
+          placeholder="Paste your script here"
+          value={text}
+          onPaste={() => {
+            splitAfterPaste.current = !hasScenes;
+          }}
+          onChange={(event) => {
+            setText(event.target.value);
+            if (splitAfterPaste.current) {
+              splitAfterPaste.current = false;
+              void split(event.target.value);
+            }
+          }}
+        />
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="segmentation">Split</Label>
+            <select
+              id="segmentation"
+              className="h-9 rounded-md border bg-transparent px-3 text-sm"
+              value={by}
+              onChange={(event) =>
+                setBy(event.target.value as Segmentation["by"])
+              }
+            >
+              {Object.entries(SEGMENTATION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {by === "sentences" && (
+            <div className="w-24 space-y-2">
+              <Label htmlFor="sentence-count">Sentences</Label>
+              <Input
+                id="sentence-count"
+                type="number"
+                min={1}
+                max={20}
+                value={count}
+                onChange={(event) => setCount(Number(event.target.value))}
+              />
+            </div>
+          )}
+          <Button
+            className="cursor-pointer"
+            size="sm"
+            onClick={() => {
+              if (hasScenes && !confirm("Replace the current scenes?")) return;
+              void split(text);
+            }}
+          >
+            Split into scenes
+          </Button>
+          <Button
+            className="cursor-pointer"
+            size="sm"
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+          >
+            Import captions
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".srt,.vtt,.json,.json3"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              // allows picking the same file again
+              event.target.value = "";
+              if (file) void importFile(file);
+            }}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const ProjectEditor = ({ projectId }: { projectId: string }) => {
+  const { userId } = useCurrentUser();
+  const project = useQuery(
+    api.projects.get,
+    userId === null ? "skip" : { projectId },
+  );
+  const scenes = useQuery(
+    api.scenes.list,
+    project ? { projectId: project._id } : "skip",
+  );
+
+  if (project === null) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This project doesn&apos;t exist or was deleted.
+      </p>
+    );
+  }
+  if (project === undefined || scenes === undefined) {
+    return null;
+  }
+  const totalMs = scenes.reduce((total, scene) => total + scene.durationMs, 0);
+
+  return (
+    <div className="w-full space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">{project.title}</h2>
+        <p className="text-sm text-muted-foreground">
+          {scenes.length} {scenes.length === 1 ? "scene" : "scenes"} · about{" "}
+          {formatDuration(totalMs)}
+        </p>
+      </div>
+      <div className="grid gap-6 lg:grid-cols-2">
+        <SourcePanel project={project} hasScenes={scenes.length > 0} />
+        <SceneList scenes={scenes} />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Edits a project's script and the scenes it's split into. `projectId`
+ * comes from the URL, unknown projects show a not-found message.
+ */
+const ScriptEditor = ({ projectId }: { projectId: string }) => (
+  <Authenticated>
+    <ProjectEditor projectId={projectId} />
+  </Authenticated>
+);
+
+export default ScriptEditor;
@@ -0,0 +1,27 @@
+"use client";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+
+/**
+ * Why and until when the signed-in user is suspended.
+ */
+const SuspensionNotice = () => {
+  const suspension = useQuery(api.suspensions.current);
+
+  if (!suspension) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1 text-center text-sm text-muted-foreground">
+      {suspension.reason && <p>Reason: {suspension.reason}</p>}
+      <p>
+        {suspension.until === null
+          ? "The suspension has no end date."
+          : `It ends ${new Date(suspension.until).toLocaleString()}.`}
+      </p>
+    </div>
+  );
+};
+
+export default SuspensionNotice;
@@ -0,0 +1,94 @@
+"use client";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { toastError } from "@/lib/toastError";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+
+const STATUS_VARIANTS: Record<
+  Doc<"webhookDeliveries">["status"],
+  "secondary" | "destructive" | "outline"
+> = {
+  pending: "outline",
+  succeeded: "secondary",
+  failed: "destructive",
+};
+
+const describeAttempt = (delivery: Doc<"webhookDeliveries">) => {
+  if (delivery.status === "pending" && delivery.nextAttemptAt) {
+    return `Retrying ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`;
+  }
+  if (delivery.responseStatus) {
+    return `HTTP ${delivery.responseStatus}`;
+  }
+  return delivery.error ?? null;
+};
+
+/**
+ * The delivery log of one endpoint, with manual redelivery.
+ */
+const WebhookDeliveries = ({
+  endpointId,
+}: {
+  endpointId: Id<"webhookEndpoints">;
+}) => {
+  const deliveries = useQuery(api.webhookDeliveries.listForEndpoint, {
+    endpointId,
+  });
+  const redeliver = useMutation(api.webhookDeliveries.redeliver);
+
+  if (deliveries === undefined) {
+    return null;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No deliveries yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {deliveries.map((delivery) => {
+        const attempt = describeAttempt(delivery);
+        return (
+          <li key={delivery._id} className="flex items-start gap-3 text-sm">
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{delivery.eventType}</span>
+                <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                  {delivery.status}
+                </Badge>
+                {delivery.redeliveryOf && (
+                  <Badge variant="outline">redelivery</Badge>
+                )}
+              </div>
+              <p className="text-muted-foreground">
+                {new Date(delivery._creationTime).toLocaleString()} ·{" "}
+                {delivery.attempts}{" "}
+                {delivery.attempts === 1 ? "attempt" : "attempts"}
+                {attempt && ` · ${attempt}`}
+              </p>
+            </div>
+            <Button
+              className="cursor-pointer"
+              size="sm"
+              variant="outline"
+              onClick={async () => {
+                try {
+                  await redeliver({ deliveryId: delivery._id });
+                  toast.success("Redelivery queued");
+                } catch (error) {
+                  toastError(error);
+                }
+              }}
+            >
+              Redeliver
+            </Button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default WebhookDeliveries;
@@ -0,0 +1,251 @@
+"use client";
+import { FormEvent, useState } from "react";
+import { Authenticated, useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  OUTGOING_EVENT_TYPES,
+  OutgoingEventType,
+} from "@/convex/lib/outgoingWebhooks";
+import { toastError } from "@/lib/toastError";
+import { useCurrentUser } from "./ConvexClientProvider";
+import WebhookDeliveries from "./WebhookDeliveries";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+const EVENT_LABELS: Record<OutgoingEventType, string> = {
+  "user.updated": "Profile updated",
+  "project.created": "Project created",
+  "project.updated": "Project renamed or archived",
+  "project.deleted": "Project deleted",
+};
+
+// Signing secrets are only returned when created or rotated
+const showSecret = (secret: string) => {
+  toast.info("Copy the signing secret now, it won't be shown again", {
+    description: secret,
+    duration: Infinity,
+    action: {
+      label: "Copy",
+      onClick: () => navigator.clipboard.writeText(secret),
+    },
+  });
+};
+
+const NewEndpointForm = () => {
+  const create = useMutation(api.webhookEndpoints.create);
+  const [url, setUrl] = useState("");
+  const [eventTypes, setEventTypes] = useState<OutgoingEventType[]>([
+    ...OUTGOING_EVENT_TYPES,
+  ]);
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    try {
+      const { secret } = await create({ url, eventTypes });
+      setUrl("");
+      showSecret(secret);
+    } catch (error) {
+      toastError(error);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="webhook-url">Endpoint URL</Label>
+        <Input
+          id="webhook-url"
+          type="url"
+          placeholder="https://example.com/webhooks"
+          value={url}
+          onChange={(event) => setUrl(event.target.value)}
+          required
+        />
+      </div>
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">Events</legend>
+        {OUTGOING_EVENT_TYPES.map((type) => (
+          <Label key={type} className="font-normal">
+            <input
+              type="checkbox"
+              checked={eventTypes.includes(type)}
+              onChange={(event) =>
+                setEventTypes((current) =>
+                  event.target.checked
+                    ? [...current, type]
+                    : current.filter((selected) => selected !== type),
+                )
+              }
+            />
+            {EVENT_LABELS[type]}
+            <code className="text-muted-foreground">{type}</code>
+          </Label>
+        ))}
+      </fieldset>
+      <Button className="cursor-pointer" size="sm" type="submit">
+        Add endpoint
+      </Button>
+    </form>
+  );
+};
+
+const EndpointActions = ({
+  endpointId,
+  enabled,
+}: {
+  endpointId: Id<"webhookEndpoints">;
+  enabled: boolean;
+}) => {
+  const setEnabled = useMutation(api.webhookEndpoints.setEnabled);
+  const sendTest = useMutation(api.webhookEndpoints.sendTest);
+  const rotateSecret = useMutation(api.webhookEndpoints.rotateSecret);
+  const remove = useMutation(api.webhookEndpoints.remove);
+
+  const run = (action: () => Promise<unknown>) => async () => {
+    try {
+      await action();
+    } catch (error) {
+      toastError(error);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button
+        className="cursor-pointer"
+        size="sm"
+        variant="outline"
+        disabled={!enabled}
+        onClick={run(async () => {
+          await sendTest({ endpointId });
+          toast.success("Test event queued");
+        })}
+      >
+        Send test event
+      </Button>
+      <Button
+        className="cursor-pointer"
+        size="sm"
+        variant="outline"
+        onClick={run(() => setEnabled({ endpointId, enabled: !enabled }))}
+      >
+        {enabled ? "Disable" : "Enable"}
+      </Button>
+      <Button
+        className="cursor-pointer"
+        size="sm"
+        variant="outline"
+        onClick={run(async () => {
+          const { secret } = await rotateSecret({ endpointId });
+          showSecret(secret);
+        })}
+      >
+        Rotate secret
+      </Button>
+      <Button
+        className="cursor-pointer"
+        size="sm"
+        variant="destructive"
+        onClick={run(async () => {
+          if (confirm("Delete this endpoint and its delivery log?")) {
+            await remove({ endpointId });
+          }
+        })}
+      >
+        Delete
+      </Button>
+    </div>
+  );
+};
+
+const EndpointList = () => {
+  const { userId } = useCurrentUser();
+  const endpoints = useQuery(
+    api.webhookEndpoints.list,
+    userId === null ? "skip" : {},
+  );
+  const [openEndpointId, setOpenEndpointId] =
+    useState<Id<"webhookEndpoints"> | null>(null);
+
+  if (endpoints === undefined) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          We POST signed JSON events to these URLs. Verify the
+          x-webhook-signature header with your endpoint&apos;s signing secret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {endpoints.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No endpoints yet.</p>
+        ) : (
+          <ul className="space-y-6">
+            {endpoints.map((endpoint) => (
+              <li key={endpoint._id} className="space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium break-all">{endpoint.url}</span>
+                  <Badge variant={endpoint.enabled ? "secondary" : "outline"}>
+                    {endpoint.enabled ? "enabled" : "disabled"}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  {endpoint.eventTypes.join(", ")} · secret{" "}
+                  <code>{endpoint.secretPreview}</code>
+                </p>
+                {endpoint.disabledReason && (
+                  <p className="text-destructive">{endpoint.disabledReason}</p>
+                )}
+                <EndpointActions
+                  endpointId={endpoint._id}
+                  enabled={endpoint.enabled}
+                />
+                <Button
+                  className="cursor-pointer px-0"
+                  size="sm"
+                  variant="link"
+                  onClick={() =>
+                    setOpenEndpointId(
+                      openEndpointId === endpoint._id ? null : endpoint._id,
+                    )
+                  }
+                >
+                  {openEndpointId === endpoint._id
+                    ? "Hide deliveries"
+                    : "Show deliveries"}
+                </Button>
+                {openEndpointId === endpoint._id && (
+                  <WebhookDeliveries endpointId={endpoint._id} />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <NewEndpointForm />
+      </CardContent>
+    </Card>
+  );
+};
+
+const WebhookEndpoints = () => (
+  <Authenticated>
+    <EndpointList />
+  </Authenticated>
+);
+
+export default WebhookEndpoints;
@@ -0,0 +1,102 @@
+'use client'
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+import { MockUser } from '@/lib/mockAuth/config'
+
+type MockSession = { user: MockUser | null; sessionId: string | null }
+
+type MockAuthContextValue = MockSession & {
+  isLoaded: boolean
+  signIn: (userId: string) => Promise<void>
+  signOut: () => Promise<void>
+}
+
+const MockAuthContext = createContext<MockAuthContextValue | null>(null)
+
+/**
+ * Stands in for `ClerkProvider` when NEXT_PUBLIC_AUTH_MODE=mock. The signed-in
+ * mock user lives in a cookie set by `/api/mock-auth/session`.
+ */
+export default function MockAuthProvider({ children }: { children: ReactNode }) {
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [session, setSession] = useState<MockSession>({
+    user: null,
+    sessionId: null,
+  })
+
+  useEffect(() => {
+    fetch('/api/mock-auth/session')
+      .then((response) => response.json())
+      .then((body: MockSession) => setSession(body))
+      .finally(() => setIsLoaded(true))
+  }, [])
+
+  const signIn = useCallback(async (userId: string) => {
+    const response = await fetch('/api/mock-auth/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId }),
+    })
+    if (!response.ok) {
+      throw new Error(`Mock sign-in failed with ${response.status}`)
+    }
+    setSession((await response.json()) as MockSession)
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/mock-auth/session', { method: 'DELETE' })
+    setSession({ user: null, sessionId: null })
+  }, [])
+
+  const value = useMemo(
+    () => ({ isLoaded, ...session, signIn, signOut }),
+    [isLoaded, session, signIn, signOut],
+  )
+
+  return (
+    <MockAuthContext.Provider value={value}>{children}</MockAuthContext.Provider>
+  )
+}
+
+export function useMockAuthContext() {
+  const context = useContext(MockAuthContext)
+  if (!context) {
+    throw new Error('useMockAuthContext must be used within MockAuthProvider')
+  }
+  return context
+}
+
+/**
+ * Drop-in for Clerk's `useAuth`, as expected by `ConvexProviderWithClerk`.
+ */
+export function useMockAuth() {
+  const { isLoaded, user, sessionId } = useMockAuthContext()
+
+  const getToken = useCallback(async () => {
+    const response = await fetch('/api/mock-auth/token', { cache: 'no-store' })
+    if (!response.ok) {
+      return null
+    }
+    const body = (await response.json()) as { token: string | null }
+    return body.token
+  }, [])
+
+  return {
+    isLoaded,
+    isSignedIn: isLoaded ? user !== null : undefined,
+    userId: user?.id ?? null,
+    getToken,
+    orgId: user?.orgId ?? null,
+    orgRole: null,
+    sessionId,
+    sessionClaims: null,
+  }
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { MOCK_USERS } from '@/lib/mockAuth/config'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { useMockAuthContext } from './MockAuthProvider'
+
+/**
+ * Replaces Clerk's `SignInButton` and `UserButton` in mock auth mode.
+ */
+const MockUserPicker = () => {
+  const router = useRouter()
+  const { isLoaded, user, signIn, signOut } = useMockAuthContext()
+
+  if (!isLoaded) {
+    return null
+  }
+
+  if (user) {
+    return (
+      <div className='flex items-center gap-2'>
+        <span className='text-sm'>{user.username ?? user.email}</span>
+        <Badge variant='outline'>mock · {user.role}</Badge>
+        <Button
+          className='cursor-pointer'
+          size={'sm'}
+          variant='outline'
+          onClick={async () => {
+            await signOut()
+            router.push('/')
+          }}
+        >
+          Sign out
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <select
+      aria-label='Sign in as a mock user'
+      className='border-input h-8 rounded-md border bg-transparent px-2 text-sm'
+      defaultValue=''
+      onChange={async (event) => {
+        try {
+          await signIn(event.target.value)
+          router.push('/dashboard')
+        } catch (error) {
+          toast.error(String(error))
+        }
+      }}
+    >
+      <option value='' disabled>
+        Sign in as…
+      </option>
+      {MOCK_USERS.map((mockUser) => (
+        <option key={mockUser.id} value={mockUser.id}>
+          {mockUser.email} ({mockUser.role})
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export default MockUserPicker
@@ -8,8 +8,44 @@
  * @module
  */
 
+import type * as adminUsers from "../adminUsers.js";
+import type * as apiKeys from "../apiKeys.js";
+import type * as apiV1 from "../apiV1.js";
+import type * as auditLog from "../auditLog.js";
+import type * as authEvents from "../authEvents.js";
+import type * as clerk from "../clerk.js";
+import type * as clerkWebhook from "../clerkWebhook.js";
 import type * as http from "../http.js";
+import type * as impersonations from "../impersonations.js";
+import type * as lib_api from "../lib/api.js";
+import type * as lib_apiKeys from "../lib/apiKeys.js";
+import type * as lib_audit from "../lib/audit.js";
+import type * as lib_clerkApi from "../lib/clerkApi.js";
+import type * as lib_crypto from "../lib/crypto.js";
+import type * as lib_errors from "../lib/errors.js";
+import type * as lib_functions from "../lib/functions.js";
+import type * as lib_impersonation from "../lib/impersonation.js";
+import type * as lib_outgoingWebhooks from "../lib/outgoingWebhooks.js";
+import type * as lib_rateLimit from "../lib/rateLimit.js";
+import type * as lib_roles from "../lib/roles.js";
+import type * as lib_scenes from "../lib/scenes.js";
+import type * as lib_suspension from "../lib/suspension.js";
+import type * as lib_transcripts from "../lib/transcripts.js";
+import type * as lib_validate from "../lib/validate.js";
+import type * as lib_webhookVerifiers from "../lib/webhookVerifiers.js";
+import type * as lib_webhooks from "../lib/webhooks.js";
+import type * as memberships from "../memberships.js";
+import type * as organizations from "../organizations.js";
+import type * as projects from "../projects.js";
+import type * as rateLimits from "../rateLimits.js";
+import type * as reconcile from "../reconcile.js";
+import type * as scenes from "../scenes.js";
+import type * as suspensions from "../suspensions.js";
+import type * as userDeletion from "../userDeletion.js";
 import type * as users from "../users.js";
+import type * as webhookDeliveries from "../webhookDeliveries.js";
+import type * as webhookEndpoints from "../webhookEndpoints.js";
+import type * as webhooks from "../webhooks.js";
 
 import type {
   ApiFromModules,
@@ -18,8 +54,44 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  adminUsers: typeof adminUsers;
+  apiKeys: typeof apiKeys;
+  apiV1: typeof apiV1;
+  auditLog: typeof auditLog;
+  authEvents: typeof authEvents;
+  clerk: typeof clerk;
+  clerkWebhook: typeof clerkWebhook;
   http: typeof http;
+  impersonations: typeof impersonations;
+  "lib/api": typeof lib_api;
+  "lib/apiKeys": typeof lib_apiKeys;
+  "lib/audit": typeof lib_audit;
+  "lib/clerkApi": typeof lib_clerkApi;
+  "lib/crypto": typeof lib_crypto;
+  "lib/errors": typeof lib_errors;
+  "lib/functions": typeof lib_functions;
+  "lib/impersonation": typeof lib_impersonation;
+  "lib/outgoingWebhooks": typeof lib_outgoingWebhooks;
+  "lib/rateLimit": typeof lib_rateLimit;
+  "lib/roles": typeof lib_roles;
+  "lib/scenes": typeof lib_scenes;
+  "lib/suspension": typeof lib_suspension;
+  "lib/transcripts": typeof lib_transcripts;
+  "lib/validate": typeof lib_validate;
+  "lib/webhookVerifiers": typeof lib_webhookVerifiers;
+  "lib/webhooks": typeof lib_webhooks;
+  memberships: typeof memberships;
+  organizations: typeof organizations;
+  projects: typeof projects;
+  rateLimits: typeof rateLimits;
+  reconcile: typeof reconcile;
+  scenes: typeof scenes;
+  suspensions: typeof suspensions;
+  userDeletion: typeof userDeletion;
   users: typeof users;
+  webhookDeliveries: typeof webhookDeliveries;
+  webhookEndpoints: typeof webhookEndpoints;
+  webhooks: typeof webhooks;
 }>;
 
 /**
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { clerkUserJson, setupUsers } from "./test.fixtures";
+
+const PAGE = { numItems: 20, cursor: null };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubEnv("CLERK_SECRET_KEY", "sk_test_clerk");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("admin users console", () => {
+  test("searches users by name or email", async () => {
+    const { asAdmin } = await setupUsers();
+
+    const byEmail = await asAdmin.query(api.adminUsers.list, {
+      paginationOpts: PAGE,
+      search: "ada@example.com",
+    });
+    expect(byEmail.page.map((user) => user.externalId)).toEqual([
+      "user_test123",
+    ]);
+
+    const everyone = await asAdmin.query(api.adminUsers.list, {
+      paginationOpts: PAGE,
+    });
+    expect(everyone.page).toHaveLength(2);
+  });
+
+  test("shows the data a user owns", async () => {
+    const { asUser, asAdmin, userId } = await setupUsers();
+    await asUser.mutation(api.apiKeys.create, {
+      name: "CI",
+      scopes: ["profile:read"],
+    });
+
+    const { user, ownedData } = await asAdmin.query(api.adminUsers.get, {
+      userId,
+    });
+    expect(user.name).toBe("Ada Lovelace");
+    expect(ownedData).toContainEqual({
+      table: "apiKeys",
+      policy: "delete",
+      count: 1,
+    });
+  });
+
+  test("is only available to admins", async () => {
+    const { asUser, userId } = await setupUsers();
+
+    await expect(
+      asUser.query(api.adminUsers.list, { paginationOpts: PAGE }),
+    ).rejects.toThrow(/admin role/);
+    await expect(
+      asUser.mutation(api.adminUsers.resync, { userId }),
+    ).rejects.toThrow(/admin role/);
+  });
+
+  test("resyncs a user from the Clerk API", async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json(
+        clerkUserJson({ first_name: "Augusta", updated_at: 1735776000000 }),
+      ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const { t, asAdmin, userId } = await setupUsers();
+
+    await asAdmin.mutation(api.adminUsers.resync, { userId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.clerk.com/v1/users/user_test123",
+      { headers: { Authorization: "Bearer sk_test_clerk" } },
+    );
+    const { user } = await asAdmin.query(api.adminUsers.get, { userId });
+    expect(user.name).toBe("Augusta Lovelace");
+  });
+
+  test("flags users Clerk no longer knows as orphaned", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("Not found", { status: 404 })),
+    );
+    const { t, asAdmin, userId } = await setupUsers();
+
+    await asAdmin.mutation(api.adminUsers.resync, { userId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const { user } = await asAdmin.query(api.adminUsers.get, { userId });
+    expect(user.orphanedAt).toBeDefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { adminMutation, authedQuery } from "./lib/functions";
+import { InvalidInput, NotFound } from "./lib/errors";
+import { ownedDataSummary } from "./userDeletion";
+
+const RECENT_SESSIONS = 10;
+
+/**
+ * Users for the admin console, newest first, or the best matches for
+ * `search` by name, email or username.
+ */
+export const list = authedQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    search: v.optional(v.string()),
+  },
+  role: "admin",
+  handler: async (ctx, { paginationOpts, search }) => {
+    const terms = search?.trim();
+    if (terms) {
+      return await ctx.db
+        .query("users")
+        .withSearchIndex("search", (q) => q.search("searchText", terms))
+        .paginate(paginationOpts);
+    }
+    return await ctx.db.query("users").order("desc").paginate(paginationOpts);
+  },
+});
+
+/**
+ * One user's profile, recent sessions and how much data they own.
+ */
+export const get = authedQuery({
+  args: { userId: v.id("users") },
+  role: "admin",
+  handler: async (ctx, { userId }) => {
+    const user = await ctx.db.get(userId);
+    if (user === null) {
+      throw new NotFound("User");
+    }
+    const sessions = await ctx.db
+      .query("authEvents")
+      .withIndex("byUserExternalIdAndKind", (q) =>
+        q.eq("userExternalId", user.externalId).eq("kind", "session"),
+      )
+      .order("desc")
+      .take(RECENT_SESSIONS);
+    return {
+      user,
+      sessions,
+      ownedData: await ownedDataSummary(ctx, user),
+    };
+  },
+});
+
+/**
+ * Re-fetches the user from Clerk in the background, for when their row has
+ * drifted, e.g. after missed webhooks.
+ */
+export const resync = adminMutation({
+  args: { userId: v.id("users") },
+  action: "adminUsers.resync",
+  handler: async (ctx, { userId }) => {
+    const user = await ctx.db.get(userId);
+    if (user === null) {
+      throw new NotFound("User");
+    }
+    if (user.deletedAt !== undefined) {
+      throw new InvalidInput("Deleted users can't be resynced");
+    }
+    await ctx.scheduler.runAfter(0, internal.reconcile.reconcileUser, {
+      userId,
+      externalId: user.externalId,
+    });
+  },
+});
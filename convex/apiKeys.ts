@@ -0,0 +1,152 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { authedMutation, authedQuery } from "./lib/functions";
+import { InvalidInput, NotFound } from "./lib/errors";
+import { apiKeyScopeValidator, generateApiKey } from "./lib/apiKeys";
+import { checkRateLimit, enforceRateLimit } from "./lib/rateLimit";
+import { isUserSuspended } from "./lib/suspension";
+import { getActiveUser } from "./users";
+
+// Active keys a single user may hold
+const MAX_KEYS_PER_USER = 25;
+
+/**
+ * The current user's keys, newest first, without their hashes.
+ */
+export const list = authedQuery({
+  args: {},
+  handler: async (ctx) => {
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("byUserId", (q) => q.eq("userId", ctx.user._id))
+      .order("desc")
+      .collect();
+    const now = Date.now();
+    return keys.map((key) => ({
+      _id: key._id,
+      _creationTime: key._creationTime,
+      name: key.name,
+      prefix: key.prefix,
+      scopes: key.scopes,
+      expiresAt: key.expiresAt,
+      revokedAt: key.revokedAt,
+      lastUsedAt: key.lastUsedAt,
+      status:
+        key.revokedAt !== undefined
+          ? ("revoked" as const)
+          : key.expiresAt !== undefined && key.expiresAt <= now
+            ? ("expired" as const)
+            : ("active" as const),
+    }));
+  },
+});
+
+/**
+ * Mints a key for the current user. The key is only ever returned here.
+ */
+export const create = authedMutation({
+  args: {
+    name: v.string(),
+    scopes: v.array(apiKeyScopeValidator),
+    expiresInDays: v.optional(v.number()),
+  },
+  handler: async (ctx, { name, scopes, expiresInDays }) => {
+    const trimmedName = name.trim();
+    if (trimmedName === "") {
+      throw new InvalidInput("Give the key a name");
+    }
+    if (scopes.length === 0) {
+      throw new InvalidInput("Choose at least one scope");
+    }
+    if (
+      expiresInDays !== undefined &&
+      (!Number.isInteger(expiresInDays) || expiresInDays < 1)
+    ) {
+      throw new InvalidInput("Keys must expire after a whole number of days");
+    }
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("byUserId", (q) => q.eq("userId", ctx.user._id))
+      .collect();
+    const activeKeys = keys.filter((key) => key.revokedAt === undefined);
+    if (activeKeys.length >= MAX_KEYS_PER_USER) {
+      throw new InvalidInput(
+        `You can have up to ${MAX_KEYS_PER_USER} keys, revoke one first`,
+      );
+    }
+    await enforceRateLimit(ctx, "createApiKey", ctx.user._id);
+
+    const { key, prefix, hashedKey } = await generateApiKey();
+    const apiKeyId = await ctx.db.insert("apiKeys", {
+      userId: ctx.user._id,
+      name: trimmedName,
+      prefix,
+      hashedKey,
+      scopes: [...new Set(scopes)],
+      expiresAt:
+        expiresInDays === undefined
+          ? undefined
+          : Date.now() + expiresInDays * 24 * 60 * 60 * 1000,
+    });
+    return { apiKeyId, key };
+  },
+});
+
+/**
+ * Stops a key from working. Revoked keys stay listed so their last use is
+ * still visible.
+ */
+export const revoke = authedMutation({
+  args: { apiKeyId: v.id("apiKeys") },
+  handler: async (ctx, { apiKeyId }) => {
+    const key = await ctx.db.get(apiKeyId);
+    if (key === null || key.userId !== ctx.user._id) {
+      throw new NotFound("API key");
+    }
+    if (key.revokedAt === undefined) {
+      await ctx.db.patch(apiKeyId, { revokedAt: Date.now() });
+    }
+  },
+});
+
+/**
+ * Resolves a hashed key to its user, enforcing revocation, expiry and the
+ * per-key rate limit, and records the use.
+ */
+export const authenticate = internalMutation({
+  args: { hashedKey: v.string() },
+  async handler(ctx, { hashedKey }) {
+    const key = await ctx.db
+      .query("apiKeys")
+      .withIndex("byHashedKey", (q) => q.eq("hashedKey", hashedKey))
+      .unique();
+    const now = Date.now();
+    if (
+      key === null ||
+      key.revokedAt !== undefined ||
+      (key.expiresAt !== undefined && key.expiresAt <= now)
+    ) {
+      return { ok: false, reason: "invalid" } as const;
+    }
+    const owner = await ctx.db.get(key.userId);
+    const user = owner && (await getActiveUser(ctx, owner.externalId));
+    if (user === null) {
+      return { ok: false, reason: "invalid" } as const;
+    }
+    if (isUserSuspended(user, now)) {
+      return { ok: false, reason: "suspended" } as const;
+    }
+
+    const limit = await checkRateLimit(ctx, "apiKey", key._id);
+    if (!limit.ok) {
+      return {
+        ok: false,
+        reason: "rateLimited",
+        retryAfterMs: limit.retryAfterMs,
+      } as const;
+    }
+
+    await ctx.db.patch(key._id, { lastUsedAt: now });
+    return { ok: true, apiKeyId: key._id, scopes: key.scopes, user } as const;
+  },
+});
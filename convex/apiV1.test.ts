@@ -0,0 +1,84 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import schema from "./schema";
+import { clerkUser } from "./test.fixtures";
+import { RATE_LIMITS } from "./lib/rateLimit";
+import { modules } from "./test.setup";
+
+async function setup() {
+  const t = convexTest(schema, modules);
+  await t.mutation(internal.users.upsertFromClerk, { data: clerkUser() });
+  const asUser = t.withIdentity({ subject: "user_test123" });
+  const { apiKeyId, key } = await asUser.mutation(api.apiKeys.create, {
+    name: "CI",
+    scopes: ["profile:read"],
+  });
+  return { t, asUser, apiKeyId, key };
+}
+
+function getMe(t: ReturnType<typeof convexTest>, key?: string) {
+  return t.fetch("/api/v1/me", {
+    headers: key ? { Authorization: `Bearer ${key}` } : {},
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("GET /api/v1/me", () => {
+  test("returns the key owner's profile and records the use", async () => {
+    const { t, asUser, key } = await setup();
+    const response = await getMe(t, key);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      id: "user_test123",
+      name: "Ada Lovelace",
+      email: "ada@example.com",
+      role: "member",
+    });
+    const [listed] = await asUser.query(api.apiKeys.list, {});
+    expect(listed.lastUsedAt).toBeDefined();
+    expect(listed).not.toHaveProperty("hashedKey");
+  });
+
+  test("stores only a hash of the key", async () => {
+    const { t, key } = await setup();
+    const [stored] = await t.run(async (ctx) =>
+      ctx.db.query("apiKeys").collect(),
+    );
+
+    expect(JSON.stringify(stored)).not.toContain(key);
+    expect(key.startsWith(stored.prefix)).toBe(true);
+  });
+
+  test("rejects missing and revoked keys", async () => {
+    const { t, asUser, apiKeyId, key } = await setup();
+    expect((await getMe(t)).status).toBe(401);
+
+    await asUser.mutation(api.apiKeys.revoke, { apiKeyId });
+    const response = await getMe(t, key);
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toContain("Bearer");
+  });
+
+  test("rate limits each key", async () => {
+    const { t, key } = await setup();
+    for (let i = 0; i < RATE_LIMITS.apiKey.rate; i++) {
+      expect((await getMe(t, key)).status).toBe(200);
+    }
+
+    const limited = await getMe(t, key);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect((await getMe(t, key)).status).toBe(200);
+  });
+});
@@ -0,0 +1,21 @@
+import { ApiRoute } from "./lib/api";
+import { DEFAULT_ROLE } from "./lib/roles";
+
+// Routes of the public REST API, mounted under `/api/v1` in `http.ts`.
+// Changing a response shape in a breaking way needs a new version instead.
+export const apiV1Routes: ApiRoute[] = [
+  {
+    method: "GET",
+    path: "/me",
+    scope: "profile:read",
+    handler: async (_ctx, _request, { user }) => ({
+      id: user.externalId,
+      name: user.name,
+      email: user.email ?? null,
+      username: user.username ?? null,
+      imageUrl: user.imageUrl ?? null,
+      role: user.role ?? DEFAULT_ROLE,
+      createdAt: user.clerkCreatedAt ?? user._creationTime,
+    }),
+  },
+];
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { clerkUser, setupUsers } from "./test.fixtures";
+
+const PAGE = { numItems: 20, cursor: null };
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("audit log", () => {
+  test("records webhook changes with a diff", async () => {
+    const { t, asAdmin } = await setupUsers();
+    const user = await t.run(async (ctx) =>
+      ctx.db
+        .query("users")
+        .withIndex("byExternalId", (q) => q.eq("externalId", "user_test123"))
+        .unique(),
+    );
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ first_name: "Augusta", updated_at: 1735776000000 }),
+    });
+
+    const { page } = await asAdmin.query(api.auditLog.list, {
+      paginationOpts: PAGE,
+      targetTable: "users",
+      targetId: user!._id,
+    });
+    expect(page[0]).toMatchObject({
+      source: "webhook",
+      actorLabel: "Clerk",
+      action: "users.upsertFromClerk",
+      operation: "update",
+    });
+    expect(page[0].changes).toContainEqual({
+      field: "name",
+      before: "Ada Lovelace",
+      after: "Augusta Lovelace",
+    });
+    expect(page[page.length - 1].operation).toBe("insert");
+  });
+
+  test("records the signed-in user and redacts secrets", async () => {
+    const { asUser, asAdmin } = await setupUsers();
+    const me = await asUser.query(api.users.current, {});
+    await asUser.mutation(api.apiKeys.create, {
+      name: "CI",
+      scopes: ["profile:read"],
+    });
+
+    const { page } = await asAdmin.query(api.auditLog.list, {
+      paginationOpts: PAGE,
+      actorId: me!._id,
+    });
+    expect(page).toHaveLength(1);
+    expect(page[0]).toMatchObject({
+      source: "ui",
+      actorLabel: "Ada Lovelace",
+      targetTable: "apiKeys",
+    });
+    expect(page[0].changes).toContainEqual({
+      field: "hashedKey",
+      after: "[redacted]",
+    });
+  });
+
+  test("forgets the data of deleted users", async () => {
+    vi.stubEnv("USER_DELETION_RETENTION_DAYS", "1");
+    vi.useFakeTimers();
+    const { t, asUser } = await setupUsers();
+    const me = await asUser.query(api.users.current, {});
+    const projectId = await asUser.mutation(api.projects.create, {
+      title: "Launch video",
+    });
+    await asUser.mutation(api.projects.rename, {
+      projectId,
+      title: "Launch trailer",
+    });
+    await t.mutation(internal.users.deleteFromClerk, {
+      clerkUserId: "user_test123",
+    });
+
+    const entries = await t.run((ctx) =>
+      ctx.db
+        .query("auditLog")
+        .withIndex("byOwnerId", (q) => q.eq("ownerId", me!._id))
+        .collect(),
+    );
+    expect(
+      entries.map((entry) => `${entry.targetTable}.${entry.operation}`),
+    ).toEqual(
+      expect.arrayContaining([
+        "projects.insert",
+        "projects.update",
+        "projects.delete",
+      ]),
+    );
+    for (const entry of entries) {
+      expect(entry.changes).toEqual([]);
+    }
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const remaining = await t.run((ctx) => ctx.db.query("auditLog").collect());
+    expect(remaining.filter((entry) => entry.ownerId === me!._id)).toEqual([]);
+  });
+
+  test("is only readable by admins", async () => {
+    const { asUser } = await setupUsers();
+
+    await expect(
+      asUser.query(api.auditLog.list, { paginationOpts: PAGE }),
+    ).rejects.toThrow(/admin role/);
+  });
+});
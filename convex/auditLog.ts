@@ -0,0 +1,54 @@
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { authedQuery } from "./lib/functions";
+import { auditSource } from "./schema";
+
+/**
+ * Audit log entries, newest first, for the admin console. Narrowed by the
+ * most specific filter's index, the others are applied to the results.
+ */
+export const list = authedQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    source: v.optional(auditSource),
+    targetTable: v.optional(v.string()),
+    targetId: v.optional(v.string()),
+    actorId: v.optional(v.id("users")),
+    action: v.optional(v.string()),
+  },
+  role: "admin",
+  handler: async (
+    ctx,
+    { paginationOpts, source, targetTable, targetId, actorId, action },
+  ) => {
+    const entries =
+      targetTable !== undefined
+        ? ctx.db.query("auditLog").withIndex("byTarget", (q) => {
+            const table = q.eq("targetTable", targetTable);
+            return targetId === undefined
+              ? table
+              : table.eq("targetId", targetId);
+          })
+        : actorId !== undefined
+          ? ctx.db
+              .query("auditLog")
+              .withIndex("byActorId", (q) => q.eq("actorId", actorId))
+          : source !== undefined
+            ? ctx.db
+                .query("auditLog")
+                .withIndex("bySource", (q) => q.eq("source", source))
+            : ctx.db.query("auditLog");
+
+    return await entries
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          source === undefined ? true : q.eq(q.field("source"), source),
+          actorId === undefined ? true : q.eq(q.field("actorId"), actorId),
+          targetId === undefined ? true : q.eq(q.field("targetId"), targetId),
+          action === undefined ? true : q.eq(q.field("action"), action),
+        ),
+      )
+      .paginate(paginationOpts);
+  },
+});
@@ -1,14 +1,81 @@
 import { AuthConfig } from "convex/server";
 
-export default {
-  providers: [
+type AuthProvider = AuthConfig["providers"][number];
+
+// Set these on each Convex deployment (Dashboard → Settings → Environment
+// Variables). See https://docs.convex.dev/auth/clerk#configuring-dev-and-prod-instances
+//
+// CLERK_JWT_ISSUER_DOMAIN   Issuer URL of the "convex" JWT template of the
+//                           deployment's Clerk instance
+// CLERK_JWT_ISSUER_DOMAINS  Optional comma-separated list of extra issuers,
+//                           e.g. to accept both staging and preview instances
+// TEST_JWT_ISSUER           Optional issuer of locally minted test JWTs,
+// TEST_JWT_JWKS             with the URL or data: URI of its public JWKS
+
+function clerkProviders(): AuthProvider[] {
+  const domains = [
+    ...optionalList("CLERK_JWT_ISSUER_DOMAIN"),
+    ...optionalList("CLERK_JWT_ISSUER_DOMAINS"),
+  ];
+  return [...new Set(domains)].map((domain) => ({
+    domain: requireUrl("Clerk issuer", domain, { allowHttp: false }),
+    applicationID: "convex",
+  }));
+}
+
+function testProviders(): AuthProvider[] {
+  const issuer = process.env.TEST_JWT_ISSUER;
+  const jwks = process.env.TEST_JWT_JWKS;
+  if (!issuer && !jwks) {
+    return [];
+  }
+  if (!issuer || !jwks) {
+    throw new Error(
+      "TEST_JWT_ISSUER and TEST_JWT_JWKS must be set together to enable the test JWT issuer",
+    );
+  }
+  return [
     {
-      // Replace with your own Clerk Issuer URL from your "convex" JWT template
-      // or with `process.env.CLERK_JWT_ISSUER_DOMAIN`
-      // and configure CLERK_JWT_ISSUER_DOMAIN on the Convex Dashboard
-      // See https://docs.convex.dev/auth/clerk#configuring-dev-and-prod-instances
-      domain: process.env.CLERK_JWT_ISSUER_DOMAIN!,
+      type: "customJwt",
+      issuer: requireUrl("TEST_JWT_ISSUER", issuer, { allowHttp: true }),
+      jwks,
+      algorithm: "RS256",
       applicationID: "convex",
     },
-  ]
-} satisfies AuthConfig;
\ No newline at end of file
+  ];
+}
+
+function optionalList(name: string) {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value !== "");
+}
+
+function requireUrl(
+  label: string,
+  value: string,
+  { allowHttp }: { allowHttp: boolean },
+) {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`${label} "${value}" is not a valid URL`);
+  }
+  const allowed = allowHttp ? ["https:", "http:"] : ["https:"];
+  if (!allowed.includes(url.protocol)) {
+    throw new Error(`${label} "${value}" must use ${allowed.join(" or ")}`);
+  }
+  return value;
+}
+
+const providers = [...clerkProviders(), ...testProviders()];
+
+if (providers.length === 0) {
+  throw new Error(
+    "No JWT issuer configured: set CLERK_JWT_ISSUER_DOMAIN (or CLERK_JWT_ISSUER_DOMAINS) on the Convex deployment",
+  );
+}
+
+export default { providers } satisfies AuthConfig;
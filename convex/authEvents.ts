@@ -0,0 +1,94 @@
+import { internalMutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { clerkEmailValidator, clerkSessionValidator } from "./clerk";
+import { getCurrentUser, userByExternalId } from "./users";
+
+const sessionEventType = v.union(
+  v.literal("session.created"),
+  v.literal("session.ended"),
+  v.literal("session.removed"),
+  v.literal("session.revoked"),
+);
+
+/**
+ * The current user's most recent session events, newest first.
+ */
+export const listRecentSessions = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, { limit }) => {
+    const user = await getCurrentUser(ctx);
+    if (user === null) {
+      return [];
+    }
+    return await ctx.db
+      .query("authEvents")
+      .withIndex("byUserExternalIdAndKind", (q) =>
+        q.eq("userExternalId", user.externalId).eq("kind", "session"),
+      )
+      .order("desc")
+      .take(Math.min(limit ?? 20, 100));
+  },
+});
+
+export const recordSessionFromClerk = internalMutation({
+  args: { type: sessionEventType, data: clerkSessionValidator },
+  async handler(ctx, { type, data }) {
+    const user = await userByExternalId(ctx, data.user_id);
+    if (user?.deletedAt !== undefined) {
+      // a late delivery, the user's events were anonymized when they were
+      // deleted and this one mustn't keep their device details
+      return "deleted" as const;
+    }
+    const activity = data.latest_activity;
+    await ctx.db.insert("authEvents", {
+      userExternalId: data.user_id,
+      userId: user?._id,
+      kind: "session",
+      type,
+      // a session is created once and then updated when it ends
+      occurredAt:
+        type === "session.created" ? data.created_at : data.updated_at,
+      sessionId: data.id,
+      device: activity
+        ? {
+            deviceType: activity.device_type ?? undefined,
+            isMobile: activity.is_mobile,
+            browserName: activity.browser_name ?? undefined,
+            browserVersion: activity.browser_version ?? undefined,
+            ipAddress: activity.ip_address ?? undefined,
+            city: activity.city ?? undefined,
+            country: activity.country ?? undefined,
+          }
+        : undefined,
+    });
+    return "recorded" as const;
+  },
+});
+
+export const recordEmailFromClerk = internalMutation({
+  args: { data: clerkEmailValidator },
+  async handler(ctx, { data }) {
+    if (!data.user_id) {
+      // e.g. verification codes sent during sign-up, before a user exists
+      return "unlinked" as const;
+    }
+    const user = await userByExternalId(ctx, data.user_id);
+    if (user?.deletedAt !== undefined) {
+      return "deleted" as const;
+    }
+    await ctx.db.insert("authEvents", {
+      userExternalId: data.user_id,
+      userId: user?._id,
+      kind: "email",
+      type: "email.created",
+      occurredAt: Date.now(),
+      email: {
+        to: data.to_email_address,
+        subject: data.subject,
+        slug: data.slug ?? undefined,
+        status: data.status,
+      },
+    });
+    return "recorded" as const;
+  },
+});
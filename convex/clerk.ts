@@ -0,0 +1,96 @@
+import { Infer, v } from "convex/values";
+
+// Validators for the subset of Clerk webhook payloads we consume, mirroring
+// the field names of the JSON types exported by `@clerk/backend`.
+// Clerk sends `null` rather than omitting empty fields.
+
+export const clerkEmailAddressValidator = v.object({
+  id: v.string(),
+  email_address: v.string(),
+  verification: v.union(v.object({ status: v.string() }), v.null()),
+});
+
+export const clerkUserValidator = v.object({
+  id: v.string(),
+  first_name: v.union(v.string(), v.null()),
+  last_name: v.union(v.string(), v.null()),
+  username: v.union(v.string(), v.null()),
+  image_url: v.string(),
+  primary_email_address_id: v.union(v.string(), v.null()),
+  email_addresses: v.array(clerkEmailAddressValidator),
+  public_metadata: v.record(v.string(), v.any()),
+  // missing from the mock auth payloads, which leave suspensions alone
+  banned: v.optional(v.boolean()),
+  created_at: v.number(),
+  updated_at: v.number(),
+  last_sign_in_at: v.union(v.number(), v.null()),
+});
+
+export type ClerkUser = Infer<typeof clerkUserValidator>;
+
+export const clerkDeletedObjectValidator = v.object({
+  id: v.string(),
+});
+
+export const clerkOrganizationValidator = v.object({
+  id: v.string(),
+  name: v.string(),
+  slug: v.string(),
+  image_url: v.optional(v.union(v.string(), v.null())),
+  public_metadata: v.union(v.record(v.string(), v.any()), v.null()),
+  created_by: v.optional(v.union(v.string(), v.null())),
+  created_at: v.number(),
+  updated_at: v.number(),
+});
+
+export type ClerkOrganization = Infer<typeof clerkOrganizationValidator>;
+
+export const clerkOrganizationMembershipValidator = v.object({
+  id: v.string(),
+  role: v.string(),
+  created_at: v.number(),
+  updated_at: v.number(),
+  organization: clerkOrganizationValidator,
+  public_user_data: v.object({
+    user_id: v.string(),
+    identifier: v.string(),
+  }),
+});
+
+export type ClerkOrganizationMembership = Infer<
+  typeof clerkOrganizationMembershipValidator
+>;
+
+export const clerkSessionActivityValidator = v.object({
+  device_type: v.optional(v.union(v.string(), v.null())),
+  is_mobile: v.optional(v.boolean()),
+  browser_name: v.optional(v.union(v.string(), v.null())),
+  browser_version: v.optional(v.union(v.string(), v.null())),
+  ip_address: v.optional(v.union(v.string(), v.null())),
+  city: v.optional(v.union(v.string(), v.null())),
+  country: v.optional(v.union(v.string(), v.null())),
+});
+
+export const clerkSessionValidator = v.object({
+  id: v.string(),
+  user_id: v.string(),
+  status: v.string(),
+  latest_activity: v.optional(
+    v.union(clerkSessionActivityValidator, v.null()),
+  ),
+  created_at: v.number(),
+  updated_at: v.number(),
+});
+
+export type ClerkSession = Infer<typeof clerkSessionValidator>;
+
+export const clerkEmailValidator = v.object({
+  id: v.string(),
+  user_id: v.optional(v.union(v.string(), v.null())),
+  to_email_address: v.optional(v.string()),
+  subject: v.optional(v.string()),
+  slug: v.optional(v.union(v.string(), v.null())),
+  status: v.optional(v.string()),
+});
+
+export type ClerkEmail = Infer<typeof clerkEmailValidator>;
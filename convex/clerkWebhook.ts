@@ -0,0 +1,142 @@
+import { internal } from "./_generated/api";
+import {
+  clerkDeletedObjectValidator,
+  clerkEmailValidator,
+  clerkOrganizationMembershipValidator,
+  clerkOrganizationValidator,
+  clerkSessionValidator,
+  clerkUserValidator,
+} from "./clerk";
+import { webhookHandler, WebhookProvider } from "./lib/webhooks";
+import { svixVerifier } from "./lib/webhookVerifiers";
+
+const upsertUser = webhookHandler(clerkUserValidator, async (ctx, data) => {
+  const result = await ctx.runMutation(internal.users.upsertFromClerk, {
+    data,
+  });
+  if (result === "stale") {
+    return { status: "ignored", detail: "Older than the stored user" };
+  }
+  if (result === "deleted") {
+    return { status: "ignored", detail: "User has been deleted" };
+  }
+});
+
+const upsertOrganization = webhookHandler(
+  clerkOrganizationValidator,
+  async (ctx, data) => {
+    const { result } = await ctx.runMutation(
+      internal.organizations.upsertFromClerk,
+      { data },
+    );
+    if (result === "stale") {
+      return {
+        status: "ignored",
+        detail: "Older than the stored organization",
+      };
+    }
+    if (result === "deleted") {
+      return { status: "ignored", detail: "Organization has been deleted" };
+    }
+  },
+);
+
+const upsertMembership = webhookHandler(
+  clerkOrganizationMembershipValidator,
+  async (ctx, data) => {
+    const result = await ctx.runMutation(internal.memberships.upsertFromClerk, {
+      data,
+    });
+    if (result === "stale") {
+      return { status: "ignored", detail: "Older than the stored membership" };
+    }
+    if (result === "deleted") {
+      return { status: "ignored", detail: "Organization has been deleted" };
+    }
+  },
+);
+
+const recordSession = webhookHandler(
+  clerkSessionValidator,
+  async (ctx, data, event) => {
+    const result = await ctx.runMutation(
+      internal.authEvents.recordSessionFromClerk,
+      {
+        type: event.type as
+          | "session.created"
+          | "session.ended"
+          | "session.removed"
+          | "session.revoked",
+        data,
+      },
+    );
+    if (result === "deleted") {
+      return { status: "ignored", detail: "User has been deleted" };
+    }
+  },
+);
+
+export const clerkWebhook: WebhookProvider = {
+  source: "clerk",
+  path: "/clerk-users-webhook",
+  verifier: svixVerifier({ secretEnvVar: "CLERK_WEBHOOK_SECRET" }),
+  parseEvent(body) {
+    const event = body as { type?: unknown; data?: unknown };
+    if (typeof event?.type !== "string") {
+      return null;
+    }
+    return { type: event.type, data: event.data };
+  },
+  handlers: {
+    "user.created": upsertUser,
+    "user.updated": upsertUser,
+    "user.deleted": webhookHandler(
+      clerkDeletedObjectValidator,
+      async (ctx, data) => {
+        await ctx.runMutation(internal.users.deleteFromClerk, {
+          clerkUserId: data.id,
+        });
+      },
+    ),
+
+    "organization.created": upsertOrganization,
+    "organization.updated": upsertOrganization,
+    "organization.deleted": webhookHandler(
+      clerkDeletedObjectValidator,
+      async (ctx, data) => {
+        await ctx.runMutation(internal.organizations.deleteFromClerk, {
+          clerkOrganizationId: data.id,
+        });
+      },
+    ),
+
+    "organizationMembership.created": upsertMembership,
+    "organizationMembership.updated": upsertMembership,
+    "organizationMembership.deleted": webhookHandler(
+      clerkOrganizationMembershipValidator,
+      async (ctx, data) => {
+        await ctx.runMutation(internal.memberships.deleteFromClerk, {
+          clerkMembershipId: data.id,
+        });
+      },
+    ),
+
+    "session.created": recordSession,
+    "session.ended": recordSession,
+    "session.removed": recordSession,
+    "session.revoked": recordSession,
+
+    "email.created": webhookHandler(clerkEmailValidator, async (ctx, data) => {
+      const result = await ctx.runMutation(
+        internal.authEvents.recordEmailFromClerk,
+        { data },
+      );
+      if (result === "unlinked") {
+        return { status: "ignored", detail: "Email not linked to a user" };
+      }
+      if (result === "deleted") {
+        return { status: "ignored", detail: "User has been deleted" };
+      }
+    }),
+  },
+};
@@ -0,0 +1,406 @@
+import { convexTest, TestConvex } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { Webhook } from "svix";
+import schema from "./schema";
+import {
+  clerkMembershipJson,
+  clerkOrganizationJson,
+  clerkUserJson,
+} from "./test.fixtures";
+import { modules } from "./test.setup";
+
+// a valid Svix secret, base64 after the prefix
+const WEBHOOK_SECRET = "whsec_dGVzdC13ZWJob29rLXNlY3JldC0xMjM0NTY=";
+
+function signedRequest(
+  event: object,
+  {
+    msgId = "msg_test1",
+    secret = WEBHOOK_SECRET,
+    timestamp = new Date(),
+  } = {},
+): RequestInit {
+  const body = JSON.stringify(event);
+  return {
+    method: "POST",
+    headers: {
+      "svix-id": msgId,
+      "svix-timestamp": String(Math.floor(timestamp.getTime() / 1000)),
+      "svix-signature": new Webhook(secret).sign(msgId, timestamp, body),
+    },
+    body,
+  };
+}
+
+function userEvent(type: string, data: object = clerkUserJson()) {
+  return { type, object: "event", data };
+}
+
+function organizationEvent(type: string, data: object) {
+  return { type, object: "event", data };
+}
+
+async function deliver(t: TestConvex<typeof schema>, events: object[]) {
+  for (const event of events) {
+    const response = await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(event, { msgId: `msg_${crypto.randomUUID()}` }),
+    );
+    expect(response.status).toBe(200);
+  }
+}
+
+beforeEach(() => {
+  vi.stubEnv("CLERK_WEBHOOK_SECRET", WEBHOOK_SECRET);
+  vi.stubEnv("USER_DELETION_RETENTION_DAYS", "1");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("/clerk-users-webhook", () => {
+  test("creates a user from a signed user.created event", async () => {
+    const t = convexTest(schema, modules);
+    const response = await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(userEvent("user.created")),
+    );
+
+    expect(response.status).toBe(200);
+    const users = await t.run(async (ctx) => ctx.db.query("users").collect());
+    expect(users).toHaveLength(1);
+    expect(users[0]).toMatchObject({
+      name: "Ada Lovelace",
+      externalId: "user_test123",
+    });
+  });
+
+  test("acknowledges duplicate deliveries without reprocessing", async () => {
+    const t = convexTest(schema, modules);
+    await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(userEvent("user.created")),
+    );
+    await t.run(async (ctx) => {
+      const user = (await ctx.db.query("users").first())!;
+      await ctx.db.patch(user._id, { name: "Edited locally" });
+    });
+
+    const response = await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(userEvent("user.created")),
+    );
+
+    expect(response.status).toBe(200);
+    const user = await t.run(async (ctx) => ctx.db.query("users").first());
+    expect(user?.name).toBe("Edited locally");
+    const events = await t.run(async (ctx) =>
+      ctx.db.query("webhookEvents").collect(),
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ status: "processed", attempts: 1 });
+  });
+
+  test("soft-deletes the user on user.deleted", async () => {
+    const t = convexTest(schema, modules);
+    await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(userEvent("user.created"), { msgId: "msg_1" }),
+    );
+    const response = await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(
+        userEvent("user.deleted", {
+          object: "user",
+          id: "user_test123",
+          deleted: true,
+        }),
+        { msgId: "msg_2" },
+      ),
+    );
+
+    expect(response.status).toBe(200);
+    const user = await t.run(async (ctx) => ctx.db.query("users").first());
+    expect(user?.deletedAt).toBeDefined();
+  });
+
+  test("ignores session and email events for deleted users", async () => {
+    const t = convexTest(schema, modules);
+    await deliver(t, [
+      userEvent("user.created"),
+      userEvent("user.deleted", {
+        object: "user",
+        id: "user_test123",
+        deleted: true,
+      }),
+      userEvent("session.ended", {
+        object: "session",
+        id: "sess_test123",
+        user_id: "user_test123",
+        status: "ended",
+        latest_activity: { ip_address: "203.0.113.7", city: "London" },
+        created_at: 1735689600000,
+        updated_at: 1735776000000,
+      }),
+      userEvent("email.created", {
+        object: "email",
+        id: "ema_test123",
+        user_id: "user_test123",
+        to_email_address: "ada@example.com",
+        subject: "Your account was deleted",
+        status: "queued",
+      }),
+    ]);
+
+    expect(
+      await t.run(async (ctx) => ctx.db.query("authEvents").collect()),
+    ).toHaveLength(0);
+    const events = await t.run(async (ctx) =>
+      ctx.db.query("webhookEvents").collect(),
+    );
+    expect(events.slice(2)).toMatchObject([
+      { status: "ignored", detail: "User has been deleted" },
+      { status: "ignored", detail: "User has been deleted" },
+    ]);
+  });
+
+  test("rejects malformed payloads with a 422 and records them", async () => {
+    const t = convexTest(schema, modules);
+    const response = await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(userEvent("user.created", clerkUserJson({ id: 42 }))),
+    );
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      reason: "$.id: expected string, got number",
+    });
+    const malformed = await t.run(async (ctx) =>
+      ctx.db.query("malformedWebhookEvents").collect(),
+    );
+    expect(malformed).toHaveLength(1);
+    const users = await t.run(async (ctx) => ctx.db.query("users").collect());
+    expect(users).toHaveLength(0);
+  });
+
+  test("rejects a bad signature", async () => {
+    const t = convexTest(schema, modules);
+    const response = await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(userEvent("user.created"), {
+        secret: "whsec_b3RoZXItc2VjcmV0LW5vdC10aGUtcmlnaHQtb25l",
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: "Invalid webhook signature",
+    });
+    const users = await t.run(async (ctx) => ctx.db.query("users").collect());
+    expect(users).toHaveLength(0);
+  });
+
+  test("rejects requests without Svix headers", async () => {
+    const t = convexTest(schema, modules);
+    const response = await t.fetch("/clerk-users-webhook", {
+      method: "POST",
+      headers: { "svix-id": "msg_test1" },
+      body: JSON.stringify(userEvent("user.created")),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Missing Svix headers",
+      reason: "Missing svix-timestamp, svix-signature",
+    });
+  });
+
+  test("rejects stale timestamps", async () => {
+    const t = convexTest(schema, modules);
+    const response = await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(userEvent("user.created"), {
+        timestamp: new Date(Date.now() - 10 * 60 * 1000),
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: "Stale webhook timestamp",
+    });
+  });
+
+  test("responds 500 when the webhook secret is missing", async () => {
+    vi.stubEnv("CLERK_WEBHOOK_SECRET", "");
+    const t = convexTest(schema, modules);
+    const response = await t.fetch(
+      "/clerk-users-webhook",
+      signedRequest(userEvent("user.created")),
+    );
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({
+      error: "Webhook endpoint misconfigured",
+    });
+  });
+});
+
+describe("/clerk-users-webhook organizations", () => {
+  test("mirrors organizations and their memberships", async () => {
+    const t = convexTest(schema, modules);
+    await deliver(t, [
+      organizationEvent("organization.created", clerkOrganizationJson()),
+      organizationEvent(
+        "organizationMembership.created",
+        clerkMembershipJson(),
+      ),
+      organizationEvent(
+        "organizationMembership.updated",
+        clerkMembershipJson({ role: "org:member", updated_at: 1735776000000 }),
+      ),
+    ]);
+
+    const organizations = await t.run(async (ctx) =>
+      ctx.db.query("organizations").collect(),
+    );
+    expect(organizations).toHaveLength(1);
+    expect(organizations[0]).toMatchObject({
+      name: "Analytical Engines",
+      externalId: "org_test123",
+    });
+    const memberships = await t.run(async (ctx) =>
+      ctx.db.query("memberships").collect(),
+    );
+    expect(memberships).toHaveLength(1);
+    expect(memberships[0]).toMatchObject({
+      organizationId: organizations[0]._id,
+      userExternalId: "user_test123",
+      role: "org:member",
+    });
+
+    await deliver(t, [
+      organizationEvent(
+        "organizationMembership.deleted",
+        clerkMembershipJson({ updated_at: 1735862400000 }),
+      ),
+    ]);
+    expect(
+      await t.run(async (ctx) => ctx.db.query("memberships").collect()),
+    ).toHaveLength(0);
+  });
+
+  test("creates the organization from a membership delivered first", async () => {
+    const t = convexTest(schema, modules);
+    await deliver(t, [
+      organizationEvent(
+        "organizationMembership.created",
+        clerkMembershipJson(),
+      ),
+    ]);
+
+    const organization = await t.run(async (ctx) =>
+      ctx.db.query("organizations").first(),
+    );
+    expect(organization?.externalId).toBe("org_test123");
+  });
+
+  test("ignores organization updates older than the stored one", async () => {
+    const t = convexTest(schema, modules);
+    await deliver(t, [
+      organizationEvent(
+        "organization.updated",
+        clerkOrganizationJson({ name: "Difference Engines", updated_at: 2 }),
+      ),
+      organizationEvent(
+        "organization.updated",
+        clerkOrganizationJson({ name: "Analytical Engines", updated_at: 1 }),
+      ),
+    ]);
+
+    const organization = await t.run(async (ctx) =>
+      ctx.db.query("organizations").first(),
+    );
+    expect(organization?.name).toBe("Difference Engines");
+  });
+
+  test("doesn't resurrect a deleted organization", async () => {
+    const t = convexTest(schema, modules);
+    await deliver(t, [
+      organizationEvent("organization.created", clerkOrganizationJson()),
+      organizationEvent(
+        "organizationMembership.created",
+        clerkMembershipJson(),
+      ),
+      organizationEvent("organization.deleted", {
+        object: "organization",
+        id: "org_test123",
+        deleted: true,
+      }),
+      organizationEvent(
+        "organization.updated",
+        clerkOrganizationJson({ updated_at: 1735776000000 }),
+      ),
+      organizationEvent(
+        "organizationMembership.updated",
+        clerkMembershipJson({ updated_at: 1735776000000 }),
+      ),
+    ]);
+
+    const organizations = await t.run(async (ctx) =>
+      ctx.db.query("organizations").collect(),
+    );
+    expect(organizations).toHaveLength(1);
+    expect(organizations[0].deletedAt).toBeDefined();
+    expect(
+      await t.run(async (ctx) => ctx.db.query("memberships").collect()),
+    ).toHaveLength(0);
+    const events = await t.run(async (ctx) =>
+      ctx.db.query("webhookEvents").collect(),
+    );
+    expect(events.slice(3)).toMatchObject([
+      { status: "ignored", detail: "Organization has been deleted" },
+      { status: "ignored", detail: "Organization has been deleted" },
+    ]);
+  });
+
+  test("leaves a tombstone when an unknown organization is deleted", async () => {
+    const t = convexTest(schema, modules);
+    await deliver(t, [
+      organizationEvent("organization.deleted", {
+        object: "organization",
+        id: "org_test123",
+        deleted: true,
+      }),
+      organizationEvent("organization.created", clerkOrganizationJson()),
+    ]);
+
+    const organizations = await t.run(async (ctx) =>
+      ctx.db.query("organizations").collect(),
+    );
+    expect(organizations).toHaveLength(1);
+    expect(organizations[0].deletedAt).toBeDefined();
+  });
+});
+
+describe("/health", () => {
+  test("reports configured webhook secrets", async () => {
+    const t = convexTest(schema, modules);
+    const response = await t.fetch("/health");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      status: "ok",
+      webhooks: { clerk: { secretConfigured: true } },
+    });
+  });
+
+  test("reports a missing webhook secret", async () => {
+    vi.stubEnv("CLERK_WEBHOOK_SECRET", "");
+    const t = convexTest(schema, modules);
+    const response = await t.fetch("/health");
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ status: "misconfigured" });
+  });
+});
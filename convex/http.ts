@@ -1,54 +1,44 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
-import { internal } from "./_generated/api";
-import type { WebhookEvent } from "@clerk/backend";
-import { Webhook } from "svix";
+import { apiV1Routes } from "./apiV1";
+import { clerkWebhook } from "./clerkWebhook";
+import { registerApiRoute } from "./lib/api";
+import {
+  jsonResponse,
+  registerWebhook,
+  webhookHealth,
+  WebhookProvider,
+} from "./lib/webhooks";
 
 const http = httpRouter();
 
-http.route({
-  path: "/clerk-users-webhook",
-  method: "POST",
-  handler: httpAction(async (ctx, request) => {
-    const event = await validateRequest(request);
-    if (!event) {
-      return new Response("Error occured", { status: 400 });
-    }
-    switch (event.type) {
-      case "user.created": // intentional fallthrough
-      case "user.updated":
-        await ctx.runMutation(internal.users.upsertFromClerk, {
-          data: event.data,
-        });
-        break;
+// Incoming webhooks, each verified, deduplicated and logged by
+// `registerWebhook`. Add new providers here.
+const webhookProviders: WebhookProvider[] = [clerkWebhook];
+
+for (const provider of webhookProviders) {
+  registerWebhook(http, provider);
+}
 
-      case "user.deleted": {
-        const clerkUserId = event.data.id!;
-        await ctx.runMutation(internal.users.deleteFromClerk, { clerkUserId });
-        break;
-      }
-      default:
-        console.log("Ignored Clerk webhook event", event.type);
-    }
+for (const route of apiV1Routes) {
+  registerApiRoute(http, route);
+}
 
-    return new Response(null, { status: 200 });
+// Lets uptime checks and deploy scripts confirm the webhook secrets are set,
+// without revealing them.
+http.route({
+  path: "/health",
+  method: "GET",
+  handler: httpAction(async () => {
+    const webhooks = webhookHealth(webhookProviders);
+    const healthy = Object.values(webhooks).every(
+      (webhook) => webhook.secretConfigured,
+    );
+    return jsonResponse(
+      { status: healthy ? "ok" : "misconfigured", webhooks },
+      healthy ? 200 : 503,
+    );
   }),
 });
 
-async function validateRequest(req: Request): Promise<WebhookEvent | null> {
-  const payloadString = await req.text();
-  const svixHeaders = {
-    "svix-id": req.headers.get("svix-id")!,
-    "svix-timestamp": req.headers.get("svix-timestamp")!,
-    "svix-signature": req.headers.get("svix-signature")!,
-  };
-  const wh = new Webhook(process.env.CLERK_WEBHOOK_SECRET!);
-  try {
-    return wh.verify(payloadString, svixHeaders) as unknown as WebhookEvent;
-  } catch (error) {
-    console.error("Error verifying webhook event", error);
-    return null;
-  }
-}
-
 export default http;
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { setupUsers } from "./test.fixtures";
+import { DEFAULT_IMPERSONATION_MINUTES } from "./lib/impersonation";
+
+const PAGE = { numItems: 20, cursor: null };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("impersonation", () => {
+  test("resolves the admin's queries to the target user", async () => {
+    const { asAdmin, userId } = await setupUsers();
+
+    await asAdmin.mutation(api.impersonations.start, {
+      userId,
+      reason: "Ticket #42",
+    });
+
+    const current = await asAdmin.query(api.users.current, {});
+    expect(current?._id).toBe(userId);
+    expect(await asAdmin.query(api.impersonations.current, {})).toMatchObject(
+      { targetName: "Ada Lovelace", reason: "Ticket #42" },
+    );
+  });
+
+  test("blocks mutations until it's stopped", async () => {
+    const { asAdmin, userId } = await setupUsers();
+    await asAdmin.mutation(api.impersonations.start, { userId });
+
+    await expect(
+      asAdmin.mutation(api.apiKeys.create, {
+        name: "CI",
+        scopes: ["profile:read"],
+      }),
+    ).rejects.toThrow(/viewing as another user/);
+
+    await asAdmin.mutation(api.impersonations.stop, {});
+    const current = await asAdmin.query(api.users.current, {});
+    expect(current?.name).toBe("Grace Hopper");
+  });
+
+  test("ends when it expires", async () => {
+    const { t, asAdmin, userId } = await setupUsers();
+    await asAdmin.mutation(api.impersonations.start, { userId });
+
+    vi.advanceTimersByTime(DEFAULT_IMPERSONATION_MINUTES * 60 * 1000);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await asAdmin.query(api.impersonations.current, {})).toBeNull();
+  });
+
+  test("records starting and stopping in the audit log", async () => {
+    const { asAdmin, userId, adminId } = await setupUsers();
+    await asAdmin.mutation(api.impersonations.start, { userId });
+    await asAdmin.mutation(api.impersonations.stop, {});
+
+    const { page } = await asAdmin.query(api.auditLog.list, {
+      paginationOpts: PAGE,
+      targetTable: "impersonations",
+    });
+    expect(page.map((entry) => [entry.action, entry.actorLabel])).toEqual([
+      ["impersonations.stop", "Grace Hopper as Ada Lovelace"],
+      ["impersonations.start", "Grace Hopper"],
+    ]);
+    expect(page.every((entry) => entry.actorId === adminId)).toBe(true);
+  });
+
+  test("is only available to admins", async () => {
+    const { asUser, adminId } = await setupUsers();
+
+    await expect(
+      asUser.mutation(api.impersonations.start, { userId: adminId }),
+    ).rejects.toThrow(/admin role/);
+  });
+});
@@ -0,0 +1,125 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { query } from "./_generated/server";
+import { auditedInternalMutation, authedMutation } from "./lib/functions";
+import { InvalidInput, NotFound } from "./lib/errors";
+import {
+  activeImpersonation,
+  DEFAULT_IMPERSONATION_MINUTES,
+  MAX_IMPERSONATION_MINUTES,
+} from "./lib/impersonation";
+import { DEFAULT_ROLE, hasRole } from "./lib/roles";
+import { getViewer } from "./users";
+
+/**
+ * The impersonation the signed-in admin is in, for the banner, or null.
+ */
+export const current = query({
+  args: {},
+  handler: async (ctx) => {
+    const viewer = await getViewer(ctx);
+    if (viewer === null || viewer.impersonation === null) {
+      return null;
+    }
+    return {
+      impersonationId: viewer.impersonation._id,
+      targetName: viewer.user.name,
+      expiresAt: viewer.impersonation.expiresAt,
+      reason: viewer.impersonation.reason,
+    };
+  },
+});
+
+/**
+ * Starts viewing the app as `userId` for `minutes`, ending any
+ * impersonation the admin was already in. Mutations other than this one and
+ * `stop` are blocked until it ends.
+ */
+export const start = authedMutation({
+  args: {
+    userId: v.id("users"),
+    reason: v.optional(v.string()),
+    minutes: v.optional(v.number()),
+  },
+  role: "admin",
+  action: "impersonations.start",
+  allowWhileImpersonating: true,
+  handler: async (ctx, { userId, reason, minutes }) => {
+    const admin = ctx.impersonator ?? ctx.user;
+    const target = await ctx.db.get(userId);
+    if (target === null || target.deletedAt !== undefined) {
+      throw new NotFound("User");
+    }
+    if (target._id === admin._id) {
+      throw new InvalidInput("You can't view the app as yourself");
+    }
+    const targetRole = target.role ?? DEFAULT_ROLE;
+    if (targetRole !== ctx.role && hasRole(targetRole, ctx.role)) {
+      throw new InvalidInput(
+        `You can't view the app as a user with the ${targetRole} role`,
+      );
+    }
+    const duration = minutes ?? DEFAULT_IMPERSONATION_MINUTES;
+    if (
+      !Number.isInteger(duration) ||
+      duration < 1 ||
+      duration > MAX_IMPERSONATION_MINUTES
+    ) {
+      throw new InvalidInput(
+        `Impersonation lasts between 1 and ${MAX_IMPERSONATION_MINUTES} minutes`,
+      );
+    }
+
+    const existing = await activeImpersonation(ctx, admin);
+    const now = Date.now();
+    if (existing !== null) {
+      await ctx.db.patch(existing.session._id, { endedAt: now });
+    }
+    const expiresAt = now + duration * 60 * 1000;
+    const impersonationId = await ctx.db.insert("impersonations", {
+      adminId: admin._id,
+      targetUserId: target._id,
+      reason: reason?.trim() || undefined,
+      expiresAt,
+    });
+    await ctx.scheduler.runAt(expiresAt, internal.impersonations.expire, {
+      impersonationId,
+    });
+    return impersonationId;
+  },
+});
+
+/**
+ * Ends the signed-in admin's impersonation, if they're in one.
+ */
+export const stop = authedMutation({
+  args: {},
+  action: "impersonations.stop",
+  allowWhileImpersonating: true,
+  handler: async (ctx) => {
+    if (ctx.impersonator === null) {
+      return;
+    }
+    const existing = await activeImpersonation(ctx, ctx.impersonator);
+    if (existing !== null) {
+      await ctx.db.patch(existing.session._id, { endedAt: Date.now() });
+    }
+  },
+});
+
+export const expire = auditedInternalMutation({
+  args: { impersonationId: v.id("impersonations") },
+  actor: {
+    source: "system",
+    actorLabel: "Impersonation timeout",
+    action: "impersonations.expire",
+  },
+  async handler(ctx, { impersonationId }) {
+    const impersonation = await ctx.db.get(impersonationId);
+    if (impersonation !== null && impersonation.endedAt === undefined) {
+      await ctx.db.patch(impersonationId, {
+        endedAt: impersonation.expiresAt,
+      });
+    }
+  },
+});
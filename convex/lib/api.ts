@@ -0,0 +1,109 @@
+import { HttpRouter, RoutableMethod } from "convex/server";
+import { ActionCtx, httpAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Doc, Id } from "../_generated/dataModel";
+import { ApiKeyScope, hashApiKey, looksLikeApiKey } from "./apiKeys";
+import { clientIp } from "./rateLimit";
+import { jsonResponse } from "./webhooks";
+
+export const API_V1 = "/api/v1";
+
+export type ApiAuth = {
+  user: Doc<"users">;
+  apiKeyId: Id<"apiKeys">;
+  scopes: ApiKeyScope[];
+};
+
+export type ApiRoute = {
+  method: RoutableMethod;
+  // relative to the API version, e.g. "/me"
+  path: string;
+  // the key must have been granted this scope
+  scope: ApiKeyScope;
+  // returns the JSON body of a 200 response, or a full Response
+  handler: (
+    ctx: ActionCtx,
+    request: Request,
+    auth: ApiAuth,
+  ) => Promise<Response | object>;
+};
+
+/**
+ * Routes an `/api/v1` endpoint authenticated by a personal API key, sent as
+ * `Authorization: Bearer sk_...`. Answers 401 for missing, unknown, revoked
+ * or expired keys, 403 when the key's owner is suspended or the key lacks
+ * the route's scope and 429 once the key's or the caller's IP's rate limit
+ * is used up.
+ */
+export function registerApiRoute(http: HttpRouter, route: ApiRoute) {
+  http.route({
+    path: `${API_V1}${route.path}`,
+    method: route.method,
+    handler: httpAction(async (ctx, request) => {
+      const ipLimit = await ctx.runMutation(internal.rateLimits.consume, {
+        name: "apiIp",
+        key: clientIp(request),
+      });
+      if (!ipLimit.ok) {
+        return tooManyRequests(ipLimit.retryAfterMs);
+      }
+      const key = bearerToken(request);
+      if (key === null || !looksLikeApiKey(key)) {
+        return unauthorized("Send an API key as Authorization: Bearer sk_...");
+      }
+      const result = await ctx.runMutation(internal.apiKeys.authenticate, {
+        hashedKey: await hashApiKey(key),
+      });
+      if (!result.ok) {
+        if (result.reason === "rateLimited") {
+          return tooManyRequests(result.retryAfterMs);
+        }
+        if (result.reason === "suspended") {
+          return jsonResponse(
+            { error: "Forbidden", reason: "The account is suspended" },
+            403,
+          );
+        }
+        return unauthorized("The API key is invalid, expired or revoked");
+      }
+      if (!result.scopes.includes(route.scope)) {
+        return jsonResponse(
+          {
+            error: "Forbidden",
+            reason: `The API key lacks the ${route.scope} scope`,
+          },
+          403,
+        );
+      }
+
+      const body = await route.handler(ctx, request, result);
+      return body instanceof Response ? body : jsonResponse(body, 200);
+    }),
+  });
+}
+
+function bearerToken(request: Request) {
+  const header = request.headers.get("Authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * A 429 telling the client when to retry, for HTTP actions that hit a rate
+ * limit.
+ */
+export function tooManyRequests(retryAfterMs: number) {
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  const response = jsonResponse(
+    { error: "Too many requests", reason: `Retry in ${retryAfterSeconds}s` },
+    429,
+  );
+  response.headers.set("Retry-After", String(retryAfterSeconds));
+  return response;
+}
+
+function unauthorized(reason: string) {
+  const response = jsonResponse({ error: "Unauthorized", reason }, 401);
+  response.headers.set("WWW-Authenticate", 'Bearer realm="api"');
+  return response;
+}
@@ -0,0 +1,38 @@
+import { v } from "convex/values";
+import { randomHex, sha256Hex } from "./crypto";
+
+// What a key may be used for, each `/api/v1` route requires one of these.
+export const API_KEY_SCOPES = ["profile:read"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const apiKeyScopeValidator = v.union(
+  ...API_KEY_SCOPES.map((scope) => v.literal(scope)),
+);
+
+// Keys look like `sk_<64 hex chars>`, the prefix makes leaked keys easy to
+// spot in logs and secret scanners
+const KEY_PREFIX = "sk_";
+// How much of a key is stored in clear, to tell keys apart in the dashboard
+const VISIBLE_KEY_LENGTH = KEY_PREFIX.length + 8;
+
+/**
+ * A new random key, with what to store for it. Only the hash is kept, so the
+ * key itself can be shown once and never again.
+ */
+export async function generateApiKey() {
+  const key = `${KEY_PREFIX}${randomHex(32)}`;
+  return {
+    key,
+    prefix: key.slice(0, VISIBLE_KEY_LENGTH),
+    hashedKey: await hashApiKey(key),
+  };
+}
+
+export async function hashApiKey(key: string) {
+  return await sha256Hex(key);
+}
+
+export function looksLikeApiKey(value: string) {
+  return value.startsWith(KEY_PREFIX) && value.length > VISIBLE_KEY_LENGTH;
+}
@@ -0,0 +1,183 @@
+import { Infer } from "convex/values";
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id, TableNames } from "../_generated/dataModel";
+import schema, { auditChange, auditOperation, auditSource } from "../schema";
+
+export type AuditSource = Infer<typeof auditSource>;
+export type AuditOperation = Infer<typeof auditOperation>;
+export type AuditChange = Infer<typeof auditChange>;
+
+/**
+ * Who or what is behind the writes of a mutation.
+ */
+export type AuditActor = {
+  source: AuditSource;
+  // the signed-in user, or the owner of the API key
+  actorId?: Id<"users">;
+  // shown in the log, e.g. the user's name or "Clerk"
+  actorLabel: string;
+  apiKeyId?: Id<"apiKeys">;
+  // what the mutation does, e.g. "apiKeys.revoke". Defaults to the table
+  // and operation of each write, e.g. "users.update"
+  action?: string;
+};
+
+// Logs, bookkeeping and bulk content whose writes aren't worth recording.
+// Scene edits show up as changes to their project's `updatedAt`.
+const UNAUDITED_TABLES: TableNames[] = [
+  "auditLog",
+  "authEvents",
+  "rateLimits",
+  "webhookEvents",
+  "malformedWebhookEvents",
+  "webhookDeliveries",
+  "scenes",
+];
+
+// Secrets that must not be copied into the log, and fields too large to,
+// only that they changed
+const REDACTED_FIELDS: { [TableName in TableNames]?: string[] } = {
+  webhookEndpoints: ["secret"],
+  apiKeys: ["hashedKey"],
+  projects: ["sourceText"],
+};
+
+const TABLE_NAMES = Object.keys(schema.tables) as TableNames[];
+
+/**
+ * Returns `ctx` with a `db` that records every insert, patch, replace and
+ * delete in `auditLog`, with the fields it changed and the given actor.
+ */
+export function withAuditLog<Ctx extends MutationCtx>(
+  ctx: Ctx,
+  actor: AuditActor,
+): Ctx {
+  const db = ctx.db;
+
+  const tableOf = (id: string) => {
+    const table = TABLE_NAMES.find((name) => db.normalizeId(name, id));
+    if (table === undefined) {
+      throw new Error(`Not a document ID: ${id}`);
+    }
+    return table;
+  };
+
+  const record = async (
+    operation: AuditOperation,
+    table: TableNames,
+    id: Id<TableNames>,
+    before: Doc<TableNames> | null,
+    after: Doc<TableNames> | null,
+  ) => {
+    if (UNAUDITED_TABLES.includes(table)) {
+      return;
+    }
+    const changes = diff(table, before, after);
+    if (changes.length === 0) {
+      return;
+    }
+    await db.insert("auditLog", {
+      source: actor.source,
+      actorId: actor.actorId,
+      actorLabel: actor.actorLabel,
+      apiKeyId: actor.apiKeyId,
+      action: actor.action ?? `${table}.${operation}`,
+      operation,
+      targetTable: table,
+      targetId: id,
+      ownerId: ownerOf(table, after ?? before),
+      changes,
+    });
+  };
+
+  // Writes accept `(id, ...)` or, in newer Convex versions, `(table, id, ...)`
+  const splitArgs = (args: unknown[], arity: number) => {
+    const hasTable = args.length > arity;
+    const id = (hasTable ? args[1] : args[0]) as Id<TableNames>;
+    const table = hasTable ? (args[0] as TableNames) : tableOf(id);
+    return { table, id };
+  };
+
+  const auditedDb = new Proxy(db, {
+    get(target, property) {
+      switch (property) {
+        case "insert":
+          return async (table: TableNames, value: never) => {
+            const id = await target.insert(table, value);
+            await record("insert", table, id, null, await target.get(id));
+            return id;
+          };
+        case "patch":
+        case "replace":
+          return async (...args: unknown[]) => {
+            const { table, id } = splitArgs(args, 2);
+            const before = await target.get(id);
+            await (target[property] as (...args: unknown[]) => Promise<void>)(
+              ...args,
+            );
+            await record("update", table, id, before, await target.get(id));
+          };
+        case "delete":
+          return async (...args: unknown[]) => {
+            const { table, id } = splitArgs(args, 1);
+            const before = await target.get(id);
+            await (target.delete as (...args: unknown[]) => Promise<void>)(
+              ...args,
+            );
+            await record("delete", table, id, before, null);
+          };
+        default: {
+          const value = Reflect.get(target, property, target);
+          return typeof value === "function" ? value.bind(target) : value;
+        }
+      }
+    },
+  });
+
+  return { ...ctx, db: auditedDb };
+}
+
+/**
+ * The user a document belongs to: the user itself, or the one its `userId`
+ * points to.
+ */
+function ownerOf(
+  table: TableNames,
+  doc: Doc<TableNames> | null,
+): Id<"users"> | undefined {
+  if (doc === null) {
+    return undefined;
+  }
+  if (table === "users") {
+    return doc._id as Id<"users">;
+  }
+  return "userId" in doc ? (doc.userId as Id<"users">) : undefined;
+}
+
+/**
+ * The top-level fields that differ between two versions of a document.
+ */
+function diff(
+  table: TableNames,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditChange[] {
+  const redacted = REDACTED_FIELDS[table] ?? [];
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    if (field === "_id" || field === "_creationTime") continue;
+    const old = before?.[field];
+    const updated = after?.[field];
+    if (JSON.stringify(old) === JSON.stringify(updated)) continue;
+    changes.push(
+      redacted.includes(field)
+        ? { field, before: old && "[redacted]", after: updated && "[redacted]" }
+        : { field, before: old, after: updated },
+    );
+  }
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
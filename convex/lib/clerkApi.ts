@@ -0,0 +1,30 @@
+const CLERK_API_URL = "https://api.clerk.com/v1";
+
+/**
+ * Calls the Clerk Backend API with CLERK_SECRET_KEY. `path` is relative to
+ * `/v1`, e.g. `/users`.
+ */
+export async function clerkFetch(path: string, init: RequestInit = {}) {
+  return await fetch(`${CLERK_API_URL}${path}`, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${clerkSecretKey()}` },
+  });
+}
+
+export async function clerkApiError(response: Response) {
+  return new Error(
+    `Clerk API responded ${response.status}: ${await response.text()}`,
+  );
+}
+
+export function hasClerkSecretKey() {
+  return Boolean(process.env.CLERK_SECRET_KEY);
+}
+
+function clerkSecretKey() {
+  const secretKey = process.env.CLERK_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error("CLERK_SECRET_KEY is not set on the Convex deployment");
+  }
+  return secretKey;
+}
@@ -0,0 +1,17 @@
+// WebCrypto helpers, available in queries, mutations and actions alike.
+
+export async function sha256Hex(value: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return toHex(new Uint8Array(digest));
+}
+
+export function randomHex(bytes: number) {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+export function toHex(bytes: Uint8Array) {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,180 @@
+import { ConvexError } from "convex/values";
+import { Role } from "./roles";
+
+export type UnauthenticatedData = {
+  code: "Unauthenticated";
+  message: string;
+};
+
+export type ForbiddenData = {
+  code: "Forbidden";
+  message: string;
+  requiredRole: Role;
+  role: Role;
+};
+
+export type RateLimitedData = {
+  code: "RateLimited";
+  message: string;
+  retryAfterMs: number;
+};
+
+/**
+ * Thrown when a function requires a signed-in user and there is none.
+ */
+export class Unauthenticated extends ConvexError<UnauthenticatedData> {
+  constructor(message = "You need to sign in to do this") {
+    super({ code: "Unauthenticated", message });
+  }
+}
+
+/**
+ * Thrown when the current user's role is below the one a function requires.
+ * Reaches the client as a `ConvexError`, use `isForbidden` to narrow it.
+ */
+export class Forbidden extends ConvexError<ForbiddenData> {
+  constructor(role: Role, requiredRole: Role) {
+    super({
+      code: "Forbidden",
+      message: `This requires the ${requiredRole} role`,
+      requiredRole,
+      role,
+    });
+  }
+}
+
+export type NotFoundData = {
+  code: "NotFound";
+  message: string;
+};
+
+export type InvalidInputData = {
+  code: "InvalidInput";
+  message: string;
+};
+
+export type ImpersonatingData = {
+  code: "Impersonating";
+  message: string;
+};
+
+export type SuspendedData = {
+  code: "Suspended";
+  message: string;
+  reason: string | null;
+  until: number | null;
+};
+
+/**
+ * Thrown when a document doesn't exist or doesn't belong to the current user.
+ * The two aren't told apart so IDs of other users' documents don't leak.
+ */
+export class NotFound extends ConvexError<NotFoundData> {
+  constructor(what: string) {
+    super({ code: "NotFound", message: `${what} not found` });
+  }
+}
+
+/**
+ * Thrown when arguments pass their validators but are still unacceptable,
+ * e.g. a malformed URL. `message` is meant to be shown to the user.
+ */
+export class InvalidInput extends ConvexError<InvalidInputData> {
+  constructor(message: string) {
+    super({ code: "InvalidInput", message });
+  }
+}
+
+/**
+ * Thrown when a rate limit is used up. `retryAfterMs` says when the call
+ * will be allowed again.
+ */
+export class RateLimited extends ConvexError<RateLimitedData> {
+  constructor(retryAfterMs: number) {
+    const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    super({
+      code: "RateLimited",
+      message: `Too many requests, try again in ${seconds}s`,
+      retryAfterMs,
+    });
+  }
+}
+
+/**
+ * Thrown by mutations that aren't allowed while an admin is viewing the app
+ * as another user, which is all of them unless they opt in.
+ */
+export class Impersonating extends ConvexError<ImpersonatingData> {
+  constructor() {
+    super({
+      code: "Impersonating",
+      message: "You can't do this while viewing as another user",
+    });
+  }
+}
+
+/**
+ * Thrown when the signed-in user's account is suspended. `until` is null for
+ * suspensions without an end.
+ */
+export class Suspended extends ConvexError<SuspendedData> {
+  constructor(reason?: string, until?: number) {
+    super({
+      code: "Suspended",
+      message: "Your account is suspended",
+      reason: reason ?? null,
+      until: until ?? null,
+    });
+  }
+}
+
+export function isUnauthenticated(
+  error: unknown,
+): error is ConvexError<UnauthenticatedData> {
+  return hasErrorCode(error, "Unauthenticated");
+}
+
+export function isForbidden(
+  error: unknown,
+): error is ConvexError<ForbiddenData> {
+  return hasErrorCode(error, "Forbidden");
+}
+
+export function isNotFound(
+  error: unknown,
+): error is ConvexError<NotFoundData> {
+  return hasErrorCode(error, "NotFound");
+}
+
+export function isInvalidInput(
+  error: unknown,
+): error is ConvexError<InvalidInputData> {
+  return hasErrorCode(error, "InvalidInput");
+}
+
+export function isRateLimited(
+  error: unknown,
+): error is ConvexError<RateLimitedData> {
+  return hasErrorCode(error, "RateLimited");
+}
+
+export function isImpersonating(
+  error: unknown,
+): error is ConvexError<ImpersonatingData> {
+  return hasErrorCode(error, "Impersonating");
+}
+
+export function isSuspended(
+  error: unknown,
+): error is ConvexError<SuspendedData> {
+  return hasErrorCode(error, "Suspended");
+}
+
+function hasErrorCode(error: unknown, code: string) {
+  return (
+    error instanceof ConvexError &&
+    typeof error.data === "object" &&
+    error.data !== null &&
+    error.data.code === code
+  );
+}
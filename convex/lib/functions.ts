@@ -0,0 +1,147 @@
+import { ObjectType, PropertyValidators } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { getViewer } from "../users";
+import { AuditActor, withAuditLog } from "./audit";
+import {
+  Forbidden,
+  Impersonating,
+  Suspended,
+  Unauthenticated,
+} from "./errors";
+import { DEFAULT_ROLE, hasRole, Role } from "./roles";
+import { isUserSuspended } from "./suspension";
+
+type Viewer = {
+  // the user to act as, the impersonated one while impersonating
+  user: Doc<"users">;
+  // the signed-in user's role, like in `proxy.ts`, so admins keep theirs
+  // while impersonating
+  role: Role;
+  // the signed-in admin while impersonating, otherwise null
+  impersonator: Doc<"users"> | null;
+};
+
+export type AuthedQueryCtx = QueryCtx & Viewer;
+export type AuthedMutationCtx = MutationCtx & Viewer;
+
+type AuthedDefinition<Ctx, Args extends PropertyValidators, Output> = {
+  args: Args;
+  // the minimum role required, any signed-in user by default
+  role?: Role;
+  // recorded with the mutation's writes in the audit log
+  action?: string;
+  handler: (ctx: Ctx, args: ObjectType<Args>) => Promise<Output>;
+};
+
+/**
+ * A public query that requires a signed-in user with at least `role`, and
+ * passes that user to the handler as `ctx.user`.
+ */
+export function authedQuery<Args extends PropertyValidators, Output>(
+  definition: AuthedDefinition<AuthedQueryCtx, Args, Output>,
+) {
+  return query({
+    args: definition.args,
+    handler: async (ctx, args: ObjectType<Args>) => {
+      const viewer = await requireRole(ctx, definition.role);
+      return await definition.handler({ ...ctx, ...viewer }, args);
+    },
+  });
+}
+
+type AuthedMutationDefinition<
+  Args extends PropertyValidators,
+  Output,
+> = AuthedDefinition<AuthedMutationCtx, Args, Output> & {
+  // blocked while an admin impersonates the user unless set
+  allowWhileImpersonating?: boolean;
+};
+
+/**
+ * A public mutation that requires a signed-in user with at least `role`, and
+ * passes that user to the handler as `ctx.user`. Its writes are recorded in
+ * the audit log under that user, or under the admin impersonating them.
+ */
+export function authedMutation<Args extends PropertyValidators, Output>(
+  definition: AuthedMutationDefinition<Args, Output>,
+) {
+  return mutation({
+    args: definition.args,
+    handler: async (ctx, args: ObjectType<Args>) => {
+      const viewer = await requireRole(ctx, definition.role);
+      const { user, impersonator } = viewer;
+      if (impersonator !== null && !definition.allowWhileImpersonating) {
+        throw new Impersonating();
+      }
+      const audited = withAuditLog(ctx, {
+        source: "ui",
+        actorId: (impersonator ?? user)._id,
+        actorLabel:
+          impersonator === null
+            ? user.name
+            : `${impersonator.name} as ${user.name}`,
+        action: definition.action,
+      });
+      return await definition.handler({ ...audited, ...viewer }, args);
+    },
+  });
+}
+
+/**
+ * An `authedMutation` restricted to admins and owners.
+ */
+export function adminMutation<Args extends PropertyValidators, Output>(
+  definition: Omit<AuthedMutationDefinition<Args, Output>, "role">,
+) {
+  return authedMutation({ ...definition, role: "admin" });
+}
+
+/**
+ * An internal mutation whose writes are recorded in the audit log, for
+ * changes made by webhooks and background jobs rather than a user.
+ */
+export function auditedInternalMutation<
+  Args extends PropertyValidators,
+  Output,
+>(definition: {
+  args: Args;
+  actor: Omit<AuditActor, "actorId" | "apiKeyId">;
+  handler: (ctx: MutationCtx, args: ObjectType<Args>) => Promise<Output>;
+}) {
+  return internalMutation({
+    args: definition.args,
+    handler: async (ctx, args: ObjectType<Args>) => {
+      return await definition.handler(
+        withAuditLog(ctx, definition.actor),
+        args,
+      );
+    },
+  });
+}
+
+export async function requireRole(
+  ctx: QueryCtx,
+  required: Role = "viewer",
+): Promise<Viewer> {
+  const viewer = await getViewer(ctx);
+  if (viewer === null) {
+    throw new Unauthenticated();
+  }
+  const { user, impersonator } = viewer;
+  const signedIn = impersonator ?? user;
+  if (isUserSuspended(signedIn)) {
+    throw new Suspended(signedIn.suspensionReason, signedIn.suspendedUntil);
+  }
+  const role = signedIn.role ?? DEFAULT_ROLE;
+  if (!hasRole(role, required)) {
+    throw new Forbidden(role, required);
+  }
+  return { user, role, impersonator };
+}
@@ -0,0 +1,35 @@
+import { Doc } from "../_generated/dataModel";
+import { QueryCtx } from "../_generated/server";
+import { DEFAULT_ROLE, hasRole } from "./roles";
+
+export const DEFAULT_IMPERSONATION_MINUTES = 30;
+export const MAX_IMPERSONATION_MINUTES = 120;
+
+/**
+ * The impersonation `admin` is currently in, with the user they're viewing
+ * as. Sessions end when stopped, when they expire, when the admin loses the
+ * admin role or when the target is deleted.
+ */
+export async function activeImpersonation(
+  ctx: QueryCtx,
+  admin: Doc<"users">,
+) {
+  const session = await ctx.db
+    .query("impersonations")
+    .withIndex("byAdminId", (q) => q.eq("adminId", admin._id))
+    .order("desc")
+    .first();
+  if (
+    session === null ||
+    session.endedAt !== undefined ||
+    session.expiresAt <= Date.now() ||
+    !hasRole(admin.role ?? DEFAULT_ROLE, "admin")
+  ) {
+    return null;
+  }
+  const target = await ctx.db.get(session.targetUserId);
+  if (target === null || target.deletedAt !== undefined) {
+    return null;
+  }
+  return { session, target };
+}
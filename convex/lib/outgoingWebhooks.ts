@@ -0,0 +1,195 @@
+import { Infer, v } from "convex/values";
+import { MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { Doc, Id } from "../_generated/dataModel";
+import { randomHex } from "./crypto";
+
+// Events customers can subscribe their endpoints to
+export const OUTGOING_EVENT_TYPES = [
+  "user.updated",
+  "project.created",
+  "project.updated",
+  "project.deleted",
+] as const;
+
+export type OutgoingEventType = (typeof OUTGOING_EVENT_TYPES)[number];
+
+export const outgoingEventTypeValidator = v.union(
+  ...OUTGOING_EVENT_TYPES.map((type) => v.literal(type)),
+);
+
+// Sent by "Send test event", whatever the endpoint subscribes to
+export const TEST_EVENT_TYPE = "webhook.test";
+
+export const webhookDeliveryStatus = v.union(
+  v.literal("pending"),
+  v.literal("succeeded"),
+  v.literal("failed"),
+);
+
+export type WebhookDeliveryStatus = Infer<typeof webhookDeliveryStatus>;
+
+export const SIGNATURE_HEADER = "x-webhook-signature";
+
+// A delivery is retried with exponential backoff, 30s, 1m, 2m... up to
+// MAX_DELIVERY_ATTEMPTS attempts in total, about an hour
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// An endpoint is disabled once this many deliveries in a row have used up
+// all their attempts
+export const AUTO_DISABLE_AFTER_FAILED_DELIVERIES = 5;
+
+export function retryDelayMs(attempts: number) {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Queues `type` for every enabled endpoint of `userId` subscribed to it. The
+ * deliveries run in actions once the calling mutation commits.
+ */
+export async function emitWebhookEvent(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  type: OutgoingEventType,
+  data: unknown,
+) {
+  const endpoints = await ctx.db
+    .query("webhookEndpoints")
+    .withIndex("byUserId", (q) => q.eq("userId", userId))
+    .collect();
+  const subscribed = endpoints.filter(
+    (endpoint) => endpoint.enabled && endpoint.eventTypes.includes(type),
+  );
+  if (subscribed.length === 0) {
+    return;
+  }
+
+  const event = {
+    id: newEventId(),
+    type,
+    createdAt: Date.now(),
+    data,
+  };
+  for (const endpoint of subscribed) {
+    await queueDelivery(ctx, endpoint, {
+      eventId: event.id,
+      eventType: type,
+      payload: JSON.stringify(event),
+    });
+  }
+}
+
+/**
+ * Records a pending delivery of an already serialized event and schedules
+ * its first attempt.
+ */
+export async function queueDelivery(
+  ctx: MutationCtx,
+  endpoint: Doc<"webhookEndpoints">,
+  delivery: Pick<
+    Doc<"webhookDeliveries">,
+    "eventId" | "eventType" | "payload" | "redeliveryOf"
+  >,
+) {
+  const deliveryId = await ctx.db.insert("webhookDeliveries", {
+    ...delivery,
+    endpointId: endpoint._id,
+    userId: endpoint.userId,
+    status: "pending",
+    attempts: 0,
+  });
+  await ctx.scheduler.runAfter(0, internal.webhookDeliveries.deliver, {
+    deliveryId,
+  });
+  return deliveryId;
+}
+
+export function newEventId() {
+  return `evt_${randomHex(16)}`;
+}
+
+export function generateSigningSecret() {
+  return `whsec_${randomHex(24)}`;
+}
+
+/**
+ * Returns why `url` can't receive webhooks, or null if it can. Only HTTPS is
+ * accepted, and hosts on the deployment's own network are refused: loopback
+ * addresses, unless `ALLOW_LOCAL_WEBHOOK_ENDPOINTS` is set for development
+ * (plain HTTP is fine then), and private or link-local IP addresses.
+ */
+export function endpointUrlProblem(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Enter a full URL, e.g. https://example.com/webhooks";
+  }
+  const { hostname, protocol } = parsed;
+  if (protocol !== "https:" && protocol !== "http:") {
+    return "Webhook endpoints must use HTTPS";
+  }
+  if (isLoopbackHost(hostname)) {
+    return process.env.ALLOW_LOCAL_WEBHOOK_ENDPOINTS
+      ? null
+      : "Webhook endpoints can't be on localhost";
+  }
+  if (isPrivateHost(hostname)) {
+    return "Webhook endpoints can't be on a private network";
+  }
+  if (protocol !== "https:") {
+    return "Webhook endpoints must use HTTPS";
+  }
+  return null;
+}
+
+function isLoopbackHost(hostname: string) {
+  const name = hostname.replace(/\.$/, "");
+  if (
+    name === "localhost" ||
+    name.endsWith(".localhost") ||
+    hostname === "[::1]"
+  ) {
+    return true;
+  }
+  return ipv4Octets(hostname)?.[0] === 127;
+}
+
+// Private (RFC 1918, unique local), shared (CGNAT), link-local and
+// unspecified addresses
+function isPrivateHost(hostname: string) {
+  const octets = ipv4Octets(hostname);
+  if (octets !== null) {
+    const [a, b] = octets;
+    return (
+      a === 0 ||
+      a === 10 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168)
+    );
+  }
+  return (
+    hostname === "[::]" ||
+    /^\[(f[cd][\da-f]{2}|fe[89ab][\da-f]):/.test(hostname)
+  );
+}
+
+// The octets of an IPv4 host, including IPv4-mapped IPv6 ones, which `URL`
+// normalizes to hex (`[::ffff:7f00:1]`), or null for other hosts
+function ipv4Octets(hostname: string) {
+  const dotted = hostname.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted !== null) {
+    return dotted.slice(1).map(Number);
+  }
+  const mapped = hostname.match(/^\[::ffff:([\da-f]{1,4}):([\da-f]{1,4})\]$/);
+  if (mapped !== null) {
+    const [high, low] = mapped.slice(1).map((hextet) => parseInt(hextet, 16));
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff];
+  }
+  return null;
+}
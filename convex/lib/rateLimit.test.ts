@@ -0,0 +1,85 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import schema from "../schema";
+import { modules } from "../test.setup";
+import { isRateLimited } from "./errors";
+import { checkRateLimit, enforceRateLimit, RATE_LIMITS } from "./rateLimit";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("fixed window", () => {
+  const { rate, period } = RATE_LIMITS.createApiKey;
+
+  test("allows `rate` calls per window, then reports when to retry", async () => {
+    const t = convexTest(schema, modules);
+    for (let i = 0; i < rate; i++) {
+      const result = await t.run((ctx) =>
+        checkRateLimit(ctx, "createApiKey", "user_1"),
+      );
+      expect(result.ok).toBe(true);
+    }
+
+    vi.advanceTimersByTime(period / 2);
+    const limited = await t.run((ctx) =>
+      checkRateLimit(ctx, "createApiKey", "user_1"),
+    );
+    expect(limited).toEqual({ ok: false, retryAfterMs: period / 2 });
+
+    vi.advanceTimersByTime(period / 2);
+    const next = await t.run((ctx) =>
+      checkRateLimit(ctx, "createApiKey", "user_1"),
+    );
+    expect(next.ok).toBe(true);
+  });
+
+  test("keeps a separate budget per key", async () => {
+    const t = convexTest(schema, modules);
+    await t.run((ctx) => checkRateLimit(ctx, "createApiKey", "user_1", rate));
+
+    const other = await t.run((ctx) =>
+      checkRateLimit(ctx, "createApiKey", "user_2"),
+    );
+    expect(other.ok).toBe(true);
+  });
+});
+
+describe("token bucket", () => {
+  const { rate, period, capacity } = RATE_LIMITS.sendWebhook;
+
+  test("allows bursts up to the capacity and refills over time", async () => {
+    const t = convexTest(schema, modules);
+    const burst = await t.run((ctx) =>
+      checkRateLimit(ctx, "sendWebhook", "user_1", capacity),
+    );
+    expect(burst.ok).toBe(true);
+
+    const limited = await t.run((ctx) =>
+      checkRateLimit(ctx, "sendWebhook", "user_1"),
+    );
+    expect(limited).toEqual({ ok: false, retryAfterMs: period / rate });
+
+    vi.advanceTimersByTime(period / rate);
+    const refilled = await t.run((ctx) =>
+      checkRateLimit(ctx, "sendWebhook", "user_1"),
+    );
+    expect(refilled.ok).toBe(true);
+  });
+
+  test("enforceRateLimit throws a RateLimited error", async () => {
+    const t = convexTest(schema, modules);
+    await t.run((ctx) =>
+      checkRateLimit(ctx, "sendWebhook", "user_1", capacity),
+    );
+
+    const error = await t
+      .run((ctx) => enforceRateLimit(ctx, "sendWebhook", "user_1"))
+      .catch((error: unknown) => error);
+    expect(isRateLimited(error)).toBe(true);
+  });
+});
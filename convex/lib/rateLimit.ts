@@ -0,0 +1,118 @@
+import { MutationCtx } from "../_generated/server";
+import { RateLimited } from "./errors";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+export type RateLimitConfig =
+  // allows `rate` calls per `period`, and bursts of up to `capacity`
+  // (default `rate`) as tokens refill continuously
+  | { kind: "tokenBucket"; rate: number; period: number; capacity?: number }
+  // allows `rate` calls in each `period` starting with the first call
+  | { kind: "fixedWindow"; rate: number; period: number };
+
+// Every limit in the app, by name. The key passed alongside (a user ID, API
+// key ID or IP address) picks whose budget is used.
+export const RATE_LIMITS = {
+  // requests to `/api/v1`, per API key
+  apiKey: { kind: "fixedWindow", rate: 60, period: MINUTE },
+  // requests to `/api/v1` before the key is checked, per IP, so keys can't
+  // be guessed quickly
+  apiIp: { kind: "tokenBucket", rate: 300, period: MINUTE, capacity: 100 },
+  createApiKey: { kind: "fixedWindow", rate: 10, period: HOUR },
+  createWebhookEndpoint: { kind: "fixedWindow", rate: 10, period: HOUR },
+  // test events and manual redeliveries, per user
+  sendWebhook: { kind: "tokenBucket", rate: 30, period: MINUTE, capacity: 10 },
+} satisfies Record<string, RateLimitConfig>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+export type RateLimitResult =
+  | { ok: true }
+  | { ok: false; retryAfterMs: number };
+
+/**
+ * Uses up `count` calls of the `name` limit for `key` if they are available.
+ * Nothing is consumed when the limit is exceeded. Only usable in mutations,
+ * actions go through `internal.rateLimits.consume`.
+ */
+export async function checkRateLimit(
+  ctx: MutationCtx,
+  name: RateLimitName,
+  key: string,
+  count = 1,
+): Promise<RateLimitResult> {
+  const config: RateLimitConfig = RATE_LIMITS[name];
+  const now = Date.now();
+  const state = await ctx.db
+    .query("rateLimits")
+    .withIndex("byNameAndKey", (q) => q.eq("name", name).eq("key", key))
+    .unique();
+
+  let value: number;
+  let ts: number;
+  let result: RateLimitResult;
+  if (config.kind === "tokenBucket") {
+    const capacity = config.capacity ?? config.rate;
+    const elapsed = state === null ? 0 : now - state.ts;
+    const available = Math.min(
+      capacity,
+      (state?.value ?? capacity) + (elapsed * config.rate) / config.period,
+    );
+    ts = now;
+    if (available >= count) {
+      value = available - count;
+      result = { ok: true };
+    } else {
+      value = available;
+      const missing = count - available;
+      result = {
+        ok: false,
+        retryAfterMs: Math.ceil((missing * config.period) / config.rate),
+      };
+    }
+  } else {
+    const sameWindow = state !== null && now - state.ts < config.period;
+    const used = sameWindow ? state.value : 0;
+    ts = sameWindow ? state.ts : now;
+    if (used + count <= config.rate) {
+      value = used + count;
+      result = { ok: true };
+    } else {
+      value = used;
+      result = { ok: false, retryAfterMs: ts + config.period - now };
+    }
+  }
+
+  if (state === null) {
+    await ctx.db.insert("rateLimits", { name, key, value, ts });
+  } else if (result.ok || config.kind === "tokenBucket") {
+    await ctx.db.patch(state._id, { value, ts });
+  }
+  return result;
+}
+
+/**
+ * Like `checkRateLimit`, but throws `RateLimited` when the limit is exceeded.
+ */
+export async function enforceRateLimit(
+  ctx: MutationCtx,
+  name: RateLimitName,
+  key: string,
+  count = 1,
+) {
+  const result = await checkRateLimit(ctx, name, key, count);
+  if (!result.ok) {
+    throw new RateLimited(result.retryAfterMs);
+  }
+}
+
+/**
+ * The caller's IP for per-IP limits in HTTP actions, as reported by the
+ * proxy in front of the deployment.
+ */
+export function clientIp(request: Request) {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0];
+  return forwarded?.trim() || request.headers.get("x-real-ip") || "unknown";
+}
@@ -0,0 +1,38 @@
+import { v } from "convex/values";
+
+// Ordered from most to least privileged.
+export const ROLES = ["owner", "admin", "member", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const roleValidator = v.union(
+  v.literal("owner"),
+  v.literal("admin"),
+  v.literal("member"),
+  v.literal("viewer"),
+);
+
+export const DEFAULT_ROLE: Role = "member";
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Reads the role from Clerk public metadata (`{ "role": "admin" }`), set from
+ * the Clerk dashboard or Backend API. Missing or unknown values fall back to
+ * the default role.
+ */
+export function roleFromMetadata(
+  metadata: Record<string, unknown> | undefined,
+) {
+  const role = metadata?.role;
+  return isRole(role) ? role : DEFAULT_ROLE;
+}
+
+/**
+ * Whether `role` grants at least the privileges of `required`.
+ */
+export function hasRole(role: Role, required: Role) {
+  return ROLES.indexOf(role) <= ROLES.indexOf(required);
+}
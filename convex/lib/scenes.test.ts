@@ -0,0 +1,74 @@
+import { describe, expect, test } from "vitest";
+import {
+  estimateDurationMs,
+  MIN_SCENE_DURATION_MS,
+  splitIntoScenes,
+  splitSentences,
+} from "./scenes";
+
+const SCRIPT = `Intro line before any heading.
+
+# Act one
+It starts here.
+
+It continues here.
+
+## Act two
+Dr. Who said "Run!" Then they ran.`;
+
+describe("splitIntoScenes", () => {
+  test("by paragraph splits on blank lines", () => {
+    const scenes = splitIntoScenes("One.\n\n\nTwo,\nstill two.\n  \nThree.", {
+      by: "paragraph",
+    });
+
+    expect(scenes).toEqual([
+      { text: "One." },
+      { text: "Two,\nstill two." },
+      { text: "Three." },
+    ]);
+  });
+
+  test("by sentences groups `count` sentences per scene", () => {
+    const scenes = splitIntoScenes("One. Two? Three!\n\nFour… Five.", {
+      by: "sentences",
+      count: 2,
+    });
+
+    expect(scenes.map((scene) => scene.text)).toEqual([
+      "One. Two?",
+      "Three! Four…",
+      "Five.",
+    ]);
+  });
+
+  test("by heading keeps the text before the first heading", () => {
+    const scenes = splitIntoScenes(SCRIPT, { by: "heading" });
+
+    expect(scenes).toEqual([
+      { text: "Intro line before any heading." },
+      { heading: "Act one", text: "It starts here.\n\nIt continues here." },
+      { heading: "Act two", text: 'Dr. Who said "Run!" Then they ran.' },
+    ]);
+  });
+
+  test("returns no scenes for blank text", () => {
+    expect(splitIntoScenes(" \n\n ", { by: "paragraph" })).toEqual([]);
+    expect(splitIntoScenes("", { by: "heading" })).toEqual([]);
+  });
+});
+
+test("splitSentences keeps closing quotes with their sentence", () => {
+  expect(splitSentences('She said "Stop." He did. (Really.) Done')).toEqual([
+    'She said "Stop."',
+    "He did.",
+    "(Really.)",
+    "Done",
+  ]);
+});
+
+test("estimateDurationMs assumes 150 words a minute, with a minimum", () => {
+  expect(estimateDurationMs("word ".repeat(150))).toBe(60000);
+  expect(estimateDurationMs("word ".repeat(15))).toBe(6000);
+  expect(estimateDurationMs("Hi.")).toBe(MIN_SCENE_DURATION_MS);
+});
@@ -0,0 +1,98 @@
+import { Infer, v } from "convex/values";
+
+// A typical narration pace, used to estimate how long a scene runs
+export const WORDS_PER_MINUTE = 150;
+export const MIN_SCENE_DURATION_MS = 2000;
+export const MAX_SCENES_PER_PROJECT = 500;
+
+export const segmentationValidator = v.union(
+  v.object({ by: v.literal("paragraph") }),
+  v.object({ by: v.literal("sentences"), count: v.number() }),
+  v.object({ by: v.literal("heading") }),
+);
+
+export type Segmentation = Infer<typeof segmentationValidator>;
+
+export type SceneDraft = {
+  heading?: string;
+  text: string;
+  // set for scenes imported from captions, see `cuesToScenes`
+  startMs?: number;
+  durationMs?: number;
+};
+
+/**
+ * Splits a script into scenes: one per paragraph (separated by blank
+ * lines), per `count` sentences, or per Markdown heading (`# ...`), where
+ * text before the first heading becomes a scene of its own.
+ */
+export function splitIntoScenes(
+  text: string,
+  segmentation: Segmentation,
+): SceneDraft[] {
+  switch (segmentation.by) {
+    case "paragraph":
+      return paragraphs(text).map((paragraph) => ({ text: paragraph }));
+    case "sentences": {
+      const sentences = splitSentences(text);
+      const scenes: SceneDraft[] = [];
+      for (let i = 0; i < sentences.length; i += segmentation.count) {
+        scenes.push({
+          text: sentences.slice(i, i + segmentation.count).join(" "),
+        });
+      }
+      return scenes;
+    }
+    case "heading":
+      return splitByHeading(text);
+  }
+}
+
+export function splitSentences(text: string) {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?…]["'”’)\]]*)\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence !== "");
+}
+
+export function countWords(text: string) {
+  return text.split(/\s+/).filter((word) => word !== "").length;
+}
+
+/**
+ * How long narrating `text` takes at `WORDS_PER_MINUTE`, in milliseconds.
+ */
+export function estimateDurationMs(text: string) {
+  const durationMs = Math.round((countWords(text) / WORDS_PER_MINUTE) * 60000);
+  return Math.max(MIN_SCENE_DURATION_MS, durationMs);
+}
+
+function paragraphs(text: string) {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph !== "");
+}
+
+function splitByHeading(text: string) {
+  const scenes: SceneDraft[] = [];
+  let current: { heading?: string; lines: string[] } = { lines: [] };
+  const flush = () => {
+    const body = current.lines.join("\n").trim();
+    if (body !== "" || current.heading !== undefined) {
+      scenes.push({ heading: current.heading, text: body });
+    }
+  };
+  for (const line of text.split("\n")) {
+    const heading = line.match(/^#{1,6}\s+(.*\S)\s*$/);
+    if (heading) {
+      flush();
+      current = { heading: heading[1], lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+  return scenes;
+}
@@ -0,0 +1,63 @@
+import { Doc } from "../_generated/dataModel";
+import { ClerkUser } from "../clerk";
+
+export const BANNED_IN_CLERK = "Banned in Clerk";
+
+/**
+ * The fields to clear when a suspension ends.
+ */
+export const LIFTED_SUSPENSION = {
+  suspendedAt: undefined,
+  suspendedUntil: undefined,
+  suspensionReason: undefined,
+};
+
+/**
+ * Whether the user is suspended at `now`. Suspensions past their end count
+ * as lifted even before the scheduled `suspensions.expire` clears them.
+ */
+export function isUserSuspended(user: Doc<"users">, now = Date.now()) {
+  return (
+    user.suspendedAt !== undefined &&
+    (user.suspendedUntil === undefined || user.suspendedUntil > now)
+  );
+}
+
+/**
+ * Reads the `suspended` flag that `suspensions.syncToClerk` keeps in Clerk
+ * public metadata, for `proxy.ts` to check from the session token without
+ * asking Convex.
+ */
+export function suspendedFromMetadata(
+  metadata: Record<string, unknown> | undefined,
+) {
+  return metadata?.suspended === true;
+}
+
+/**
+ * The suspension fields to write for a Clerk user payload. Only a change of
+ * Clerk's `banned` flag suspends or lifts, so an ordinary profile update
+ * can't undo a suspension whose ban hasn't reached Clerk yet.
+ */
+export function suspensionFromClerk(
+  user: Doc<"users"> | null,
+  data: ClerkUser,
+) {
+  if (data.banned === undefined) {
+    return {};
+  }
+  const wasBanned = user?.clerkBanned ?? false;
+  const suspended = user !== null && isUserSuspended(user);
+  if (data.banned && !wasBanned && !suspended) {
+    return {
+      clerkBanned: true,
+      suspendedAt: data.updated_at,
+      suspendedUntil: undefined,
+      suspensionReason: BANNED_IN_CLERK,
+    };
+  }
+  if (!data.banned && wasBanned && suspended) {
+    return { clerkBanned: false, ...LIFTED_SUSPENSION };
+  }
+  return { clerkBanned: data.banned };
+}
@@ -0,0 +1,132 @@
+/// <reference types="vite/client" />
+import { describe, expect, test } from "vitest";
+import json3 from "../../fixtures/transcripts/sample.json3?raw";
+import srt from "../../fixtures/transcripts/sample.srt?raw";
+import vtt from "../../fixtures/transcripts/sample.vtt?raw";
+import { isInvalidInput } from "./errors";
+import { cuesToScenes, parseTranscript, transcriptFormat } from "./transcripts";
+
+function parseError(fileName: string, content: string) {
+  try {
+    parseTranscript(fileName, content);
+  } catch (error) {
+    expect(isInvalidInput(error)).toBe(true);
+    return (error as { data: { message: string } }).data.message;
+  }
+  throw new Error("Expected the transcript to be rejected");
+}
+
+describe("parseTranscript", () => {
+  test("reads SubRip cues without markup", () => {
+    expect(parseTranscript("captions.srt", srt)).toEqual([
+      { startMs: 1000, endMs: 3500, text: "Welcome back to the channel." },
+      {
+        startMs: 3600,
+        endMs: 6000,
+        text: "Today we're building a video from plain text.",
+      },
+      {
+        startMs: 6100,
+        endMs: 9000,
+        text: "It's quicker than you'd think & it's free.",
+      },
+      { startMs: 12000, endMs: 14500, text: "First, paste your script." },
+    ]);
+  });
+
+  test("reads WebVTT, dropping lines repeated from the previous cue", () => {
+    expect(parseTranscript("captions.vtt", vtt)).toEqual([
+      { startMs: 500, endMs: 2000, text: "Hi, I'm Ana." },
+      { startMs: 2000, endMs: 4000, text: "this is the demo" },
+      { startMs: 4010, endMs: 6000, text: "and it starts now." },
+    ]);
+  });
+
+  test("reads YouTube JSON3, cutting overlapping cues short", () => {
+    expect(parseTranscript("captions.json3", json3)).toEqual([
+      { startMs: 1200, endMs: 2900, text: "so today we" },
+      { startMs: 2900, endMs: 6900, text: "look at captions." },
+      { startMs: 6900, endMs: 10900, text: "They come with timing" },
+      { startMs: 10900, endMs: 13900, text: "so scenes line up." },
+      { startMs: 14000, endMs: 16500, text: "Let's start." },
+    ]);
+  });
+
+  test("handles Windows line endings and a byte order mark", () => {
+    const content = "\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nHello\r\n";
+    expect(parseTranscript("captions.srt", content)).toEqual([
+      { startMs: 1000, endMs: 2000, text: "Hello" },
+    ]);
+  });
+
+  test("rejects malformed files", () => {
+    expect(parseError("captions.srt", "1\nHello")).toBe(
+      "Caption 1 has no timing line",
+    );
+    expect(parseError("captions.srt", "1\n00:01 --> soon\nHello")).toBe(
+      "Invalid caption timing: 00:01 --> soon",
+    );
+    expect(parseError("captions.vtt", srt)).toBe(
+      "WebVTT files must start with WEBVTT",
+    );
+    expect(parseError("captions.json3", "{")).toBe("The file isn't valid JSON");
+    expect(parseError("captions.json3", '{"events": []}')).toBe(
+      "The file has no captions",
+    );
+  });
+});
+
+test("transcriptFormat falls back to sniffing the content", () => {
+  expect(transcriptFormat("captions.VTT", "")).toBe("vtt");
+  expect(transcriptFormat("captions.txt", "WEBVTT\n")).toBe("vtt");
+  expect(transcriptFormat("timedtext", '{"events": []}')).toBe("json3");
+  expect(transcriptFormat("captions.txt", srt)).toBe("srt");
+});
+
+describe("cuesToScenes", () => {
+  test("breaks scenes at pauses and keeps the original timing", () => {
+    expect(cuesToScenes(parseTranscript("captions.srt", srt))).toEqual([
+      {
+        text:
+          "Welcome back to the channel. Today we're building a video from " +
+          "plain text. It's quicker than you'd think & it's free.",
+        startMs: 1000,
+        durationMs: 11000,
+      },
+      { text: "First, paste your script.", startMs: 12000, durationMs: 2500 },
+    ]);
+  });
+
+  test("ends scenes at a sentence once they're long enough", () => {
+    const scenes = cuesToScenes(parseTranscript("captions.json3", json3));
+
+    expect(scenes).toEqual([
+      {
+        text:
+          "so today we look at captions. They come with timing so scenes " +
+          "line up.",
+        startMs: 1200,
+        durationMs: 12800,
+      },
+      { text: "Let's start.", startMs: 14000, durationMs: 2500 },
+    ]);
+  });
+
+  test("keeps scenes under 30 seconds", () => {
+    const cues = Array.from({ length: 10 }, (_, i) => ({
+      startMs: i * 5000,
+      endMs: (i + 1) * 5000,
+      text: `part ${i}`,
+    }));
+
+    expect(
+      cuesToScenes(cues).map(({ startMs, durationMs }) => [
+        startMs,
+        durationMs,
+      ]),
+    ).toEqual([
+      [0, 30000],
+      [30000, 20000],
+    ]);
+  });
+});
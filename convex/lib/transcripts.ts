@@ -0,0 +1,265 @@
+import { v } from "convex/values";
+import { InvalidInput } from "./errors";
+import { SceneDraft } from "./scenes";
+import { parseWithValidator } from "./validate";
+
+export type TranscriptFormat = "srt" | "vtt" | "json3";
+
+/**
+ * One caption, with its times in milliseconds from the start of the video.
+ */
+export type Cue = {
+  startMs: number;
+  endMs: number;
+  text: string;
+};
+
+// Scenes built from cues end after a sentence once they run this long, at a
+// pause of this length, and before they'd run longer than the maximum
+const MIN_TIMED_SCENE_MS = 10_000;
+const MAX_TIMED_SCENE_MS = 30_000;
+const SCENE_BREAK_PAUSE_MS = 2_000;
+
+// `hh:mm:ss,mmm` in SubRip, `hh:mm:ss.mmm` or `mm:ss.mmm` in WebVTT
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/;
+const TIMING = /^\s*(\S+)\s+-->\s+(\S+)/;
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  lrm: "",
+  rlm: "",
+};
+
+// The parts of YouTube's JSON3 captions we read, see `parseJson3`
+const json3Validator = v.object({
+  events: v.array(
+    v.object({
+      tStartMs: v.optional(v.number()),
+      dDurationMs: v.optional(v.number()),
+      segs: v.optional(v.array(v.object({ utf8: v.optional(v.string()) }))),
+    }),
+  ),
+});
+
+/**
+ * Guesses the format of a caption file from its extension, or its content
+ * when the extension isn't one we know.
+ */
+export function transcriptFormat(
+  fileName: string,
+  content: string,
+): TranscriptFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "srt" || extension === "vtt") return extension;
+  if (extension === "json" || extension === "json3") return "json3";
+
+  const start = content.replace(/^\uFEFF/, "").trimStart();
+  if (start.startsWith("WEBVTT")) return "vtt";
+  if (start.startsWith("{")) return "json3";
+  return "srt";
+}
+
+/**
+ * Parses a SubRip (`.srt`), WebVTT (`.vtt`) or YouTube JSON3 caption file
+ * into plain-text cues ordered by start time. Overlapping cues are cut off
+ * where the next one starts. Throws `InvalidInput` when the file can't be
+ * read or has no captions.
+ */
+export function parseTranscript(fileName: string, content: string): Cue[] {
+  const format = transcriptFormat(fileName, content);
+  const cues = (
+    format === "srt"
+      ? parseSrt(content)
+      : format === "vtt"
+        ? parseVtt(content)
+        : parseJson3(content)
+  ).sort((a, b) => a.startMs - b.startMs);
+  if (cues.length === 0) {
+    throw new InvalidInput("The file has no captions");
+  }
+
+  return cues.map((cue, index) => {
+    const next = cues[index + 1];
+    const endMs =
+      next !== undefined && next.startMs > cue.startMs
+        ? Math.min(cue.endMs, next.startMs)
+        : cue.endMs;
+    return { ...cue, endMs: Math.max(endMs, cue.startMs) };
+  });
+}
+
+export function parseSrt(content: string): Cue[] {
+  const cues: Cue[] = [];
+  for (const [index, lines] of blocks(content).entries()) {
+    const timingLine = lines.findIndex((line) => line.includes("-->"));
+    if (timingLine === -1) {
+      throw new InvalidInput(`Caption ${index + 1} has no timing line`);
+    }
+    const text = cleanText(lines.slice(timingLine + 1).join(" "));
+    if (text !== "") {
+      cues.push({ ...parseTiming(lines[timingLine]), text });
+    }
+  }
+  return cues;
+}
+
+/**
+ * Parses WebVTT, skipping the header, `NOTE`, `STYLE` and `REGION` blocks.
+ * Lines repeated from the previous cue are dropped: YouTube's automatic
+ * captions scroll, so each cue starts with the last line of the one before.
+ */
+export function parseVtt(content: string): Cue[] {
+  const [header, ...rest] = blocks(content);
+  if (header === undefined || !header[0].startsWith("WEBVTT")) {
+    throw new InvalidInput("WebVTT files must start with WEBVTT");
+  }
+
+  const cues: Cue[] = [];
+  let previousLines: string[] = [];
+  for (const lines of rest) {
+    const timingLine = lines.findIndex((line) => line.includes("-->"));
+    if (timingLine === -1 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) {
+      continue;
+    }
+    const cueLines = lines
+      .slice(timingLine + 1)
+      .map(cleanText)
+      .filter((line) => line !== "");
+    const newLines = cueLines.filter((line) => !previousLines.includes(line));
+    previousLines = cueLines;
+    if (newLines.length > 0) {
+      cues.push({
+        ...parseTiming(lines[timingLine]),
+        text: newLines.join(" "),
+      });
+    }
+  }
+  return cues;
+}
+
+/**
+ * Parses the JSON3 captions YouTube serves with `fmt=json3`: each event
+ * with `segs` is a cue, and events holding only a line break are skipped.
+ */
+export function parseJson3(content: string): Cue[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new InvalidInput("The file isn't valid JSON");
+  }
+  const parsed = parseWithValidator(json3Validator, json);
+  if (!parsed.ok) {
+    throw new InvalidInput(`Not a YouTube JSON3 transcript (${parsed.reason})`);
+  }
+
+  const cues: Cue[] = [];
+  for (const event of parsed.value.events) {
+    const text = cleanText(
+      (event.segs ?? []).map((segment) => segment.utf8 ?? "").join(""),
+    );
+    if (text !== "") {
+      const startMs = event.tStartMs ?? 0;
+      cues.push({ startMs, endMs: startMs + (event.dDurationMs ?? 0), text });
+    }
+  }
+  return cues;
+}
+
+/**
+ * Groups cues into scenes that keep their place in the video: each scene
+ * starts at its first cue and lasts until the next scene starts, so the
+ * scenes play back in step with the original.
+ */
+export function cuesToScenes(cues: Cue[]): SceneDraft[] {
+  const groups: Cue[][] = [];
+  let group: Cue[] = [];
+  for (const cue of cues) {
+    const first = group[0];
+    const last = group[group.length - 1];
+    if (
+      first !== undefined &&
+      (cue.startMs - last.endMs >= SCENE_BREAK_PAUSE_MS ||
+        cue.endMs - first.startMs > MAX_TIMED_SCENE_MS ||
+        (SENTENCE_END.test(last.text) &&
+          last.endMs - first.startMs >= MIN_TIMED_SCENE_MS))
+    ) {
+      groups.push(group);
+      group = [];
+    }
+    group.push(cue);
+  }
+  if (group.length > 0) {
+    groups.push(group);
+  }
+
+  return groups.map((cues, index) => {
+    const startMs = cues[0].startMs;
+    const next = groups[index + 1];
+    const endMs =
+      next === undefined ? cues[cues.length - 1].endMs : next[0].startMs;
+    return {
+      text: cues.map((cue) => cue.text).join(" "),
+      startMs,
+      durationMs: endMs - startMs,
+    };
+  });
+}
+
+// Blocks of non-blank lines, which hold one cue each in SubRip and WebVTT
+function blocks(content: string) {
+  return content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n[ \t]*\n/)
+    .map((block) => block.split("\n").filter((line) => line.trim() !== ""))
+    .filter((lines) => lines.length > 0);
+}
+
+function parseTiming(line: string) {
+  const [, start, end] = line.match(TIMING) ?? [];
+  const startMs = start === undefined ? null : parseTimestamp(start);
+  const endMs = end === undefined ? null : parseTimestamp(end);
+  if (startMs === null || endMs === null) {
+    throw new InvalidInput(`Invalid caption timing: ${line.trim()}`);
+  }
+  return { startMs, endMs };
+}
+
+function parseTimestamp(timestamp: string) {
+  const match = timestamp.match(TIMESTAMP);
+  if (match === null) {
+    return null;
+  }
+  const [, hours = "0", minutes, seconds, milliseconds] = match;
+  return (
+    ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 +
+    Number(milliseconds.padEnd(3, "0"))
+  );
+}
+
+// Strips markup (`<i>`, `<v Name>`, inline timestamps, `{\an8}`) and
+// decodes entities, leaving the spoken text on one line
+function cleanText(text: string) {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name.startsWith("#")) {
+        const code =
+          name[1].toLowerCase() === "x"
+            ? parseInt(name.slice(2), 16)
+            : Number(name.slice(1));
+        return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+}
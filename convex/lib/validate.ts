@@ -0,0 +1,110 @@
+import { GenericValidator, Infer } from "convex/values";
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: string };
+
+class ParseError extends Error {}
+
+/**
+ * Checks an untrusted value (e.g. a webhook body) against a Convex validator
+ * at runtime. Unknown object fields are stripped rather than rejected, so the
+ * result can be passed straight to a function declaring the same validator
+ * even when the sender adds fields we don't consume.
+ */
+export function parseWithValidator<V extends GenericValidator>(
+  validator: V,
+  value: unknown,
+): ParseResult<Infer<V>> {
+  try {
+    return { ok: true, value: walk(validator, value, "$") as Infer<V> };
+  } catch (error) {
+    if (error instanceof ParseError) {
+      return { ok: false, reason: error.message };
+    }
+    throw error;
+  }
+}
+
+function walk(
+  validator: GenericValidator,
+  value: unknown,
+  path: string,
+): unknown {
+  const fail = (expected: string): never => {
+    throw new ParseError(
+      `${path}: expected ${expected}, got ${describe(value)}`,
+    );
+  };
+
+  switch (validator.kind) {
+    case "any":
+      return value;
+    case "string":
+    case "id":
+      return typeof value === "string" ? value : fail("string");
+    case "float64":
+      return typeof value === "number" ? value : fail("number");
+    case "int64":
+      return typeof value === "bigint" ? value : fail("bigint");
+    case "boolean":
+      return typeof value === "boolean" ? value : fail("boolean");
+    case "null":
+      return value === null ? value : fail("null");
+    case "bytes":
+      return value instanceof ArrayBuffer ? value : fail("bytes");
+    case "literal":
+      return value === validator.value
+        ? value
+        : fail(JSON.stringify(validator.value));
+    case "array":
+      if (!Array.isArray(value)) return fail("array");
+      return value.map((item, i) =>
+        walk(validator.element, item, `${path}[${i}]`),
+      );
+    case "record": {
+      if (!isPlainObject(value)) return fail("object");
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        walk(validator.key, key, `${path}.${key}`);
+        result[key] = walk(validator.value, item, `${path}.${key}`);
+      }
+      return result;
+    }
+    case "object": {
+      if (!isPlainObject(value)) return fail("object");
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(validator.fields)) {
+        const item = value[key];
+        if (item === undefined && field.isOptional === "optional") continue;
+        if (item === undefined) {
+          throw new ParseError(`${path}.${key}: missing required field`);
+        }
+        result[key] = walk(field, item, `${path}.${key}`);
+      }
+      return result;
+    }
+    case "union": {
+      const reasons: string[] = [];
+      for (const member of validator.members) {
+        try {
+          return walk(member, value, path);
+        } catch (error) {
+          if (!(error instanceof ParseError)) throw error;
+          reasons.push(error.message);
+        }
+      }
+      throw new ParseError(reasons.join(" | "));
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
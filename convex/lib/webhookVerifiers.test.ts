@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest";
+import {
+  hmacSha256,
+  hmacSha256Verifier,
+  timestampedSignatureVerifier,
+} from "./webhookVerifiers";
+
+const SECRET = "test-signing-secret";
+const BODY = JSON.stringify({ type: "invoice.paid", data: { id: "in_1" } });
+
+function post(headers: Record<string, string>, body = BODY) {
+  return new Request("https://example.test/webhook", {
+    method: "POST",
+    headers,
+    body,
+  });
+}
+
+describe("hmacSha256Verifier", () => {
+  const verifier = hmacSha256Verifier({
+    secretEnvVar: "TEST_WEBHOOK_SECRET",
+    signatureHeader: "x-signature",
+    idHeader: "x-delivery-id",
+    prefix: "sha256=",
+  });
+
+  test("accepts a matching signature and returns the delivery ID", async () => {
+    const signature = "sha256=" + (await hmacSha256(SECRET, BODY, "hex"));
+    const result = await verifier.verify(
+      post({ "x-signature": signature, "x-delivery-id": "dlv_1" }),
+      SECRET,
+    );
+
+    expect(result).toEqual({ ok: true, payload: BODY, deliveryId: "dlv_1" });
+  });
+
+  test("rejects a signature over a different body", async () => {
+    const signature = "sha256=" + (await hmacSha256(SECRET, "{}", "hex"));
+    const result = await verifier.verify(
+      post({ "x-signature": signature }),
+      SECRET,
+    );
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 400,
+      error: "Invalid webhook signature",
+    });
+  });
+
+  test("rejects requests without the signature header", async () => {
+    const result = await verifier.verify(post({}), SECRET);
+
+    expect(result).toEqual({
+      ok: false,
+      status: 400,
+      error: "Missing signature headers",
+      reason: "Missing x-signature",
+    });
+  });
+
+  test("supports base64 signatures", async () => {
+    const base64Verifier = hmacSha256Verifier({
+      secretEnvVar: "TEST_WEBHOOK_SECRET",
+      signatureHeader: "x-signature",
+      encoding: "base64",
+    });
+    const signature = await hmacSha256(SECRET, BODY, "base64");
+    const result = await base64Verifier.verify(
+      post({ "x-signature": signature }),
+      SECRET,
+    );
+
+    expect(result).toMatchObject({ ok: true, payload: BODY });
+  });
+});
+
+describe("timestampedSignatureVerifier", () => {
+  const verifier = timestampedSignatureVerifier({
+    secretEnvVar: "TEST_WEBHOOK_SECRET",
+  });
+
+  async function stripeSignature(timestamp: number, secret = SECRET) {
+    const v1 = await hmacSha256(secret, `${timestamp}.${BODY}`, "hex");
+    return `t=${timestamp},v1=${v1}`;
+  }
+
+  test("accepts a current signature", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await verifier.verify(
+      post({ "stripe-signature": await stripeSignature(now) }),
+      SECRET,
+    );
+
+    expect(result).toEqual({ ok: true, payload: BODY });
+  });
+
+  test("accepts any matching v1 while a secret is rolled", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const old = await stripeSignature(now, "previous-secret");
+    const current = (await stripeSignature(now)).split(",")[1];
+    const result = await verifier.verify(
+      post({ "stripe-signature": `${old},${current}` }),
+      SECRET,
+    );
+
+    expect(result).toMatchObject({ ok: true });
+  });
+
+  test("rejects timestamps outside the tolerance", async () => {
+    const old = Math.floor(Date.now() / 1000) - 10 * 60;
+    const result = await verifier.verify(
+      post({ "stripe-signature": await stripeSignature(old) }),
+      SECRET,
+    );
+
+    expect(result).toMatchObject({
+      ok: false,
+      error: "Stale webhook timestamp",
+    });
+  });
+
+  test("rejects a header without a v1 signature", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await verifier.verify(
+      post({ "stripe-signature": `t=${now}` }),
+      SECRET,
+    );
+
+    expect(result).toMatchObject({
+      ok: false,
+      error: "Invalid webhook signature",
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { Webhook } from "svix";
+import { toHex } from "./crypto";
+import { VerificationResult, WebhookVerifier } from "./webhooks";
+
+// Signed timestamps further than this from now are rejected, to stop replays
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+const SVIX_HEADERS = ["svix-id", "svix-timestamp", "svix-signature"] as const;
+
+/**
+ * Svix-signed webhooks, as sent by Clerk. The secret is the `whsec_...` value
+ * from the provider's dashboard.
+ */
+export function svixVerifier({
+  secretEnvVar,
+}: {
+  secretEnvVar: string;
+}): WebhookVerifier {
+  return {
+    secretEnvVar,
+    async verify(request, secret) {
+      let wh: Webhook;
+      try {
+        wh = new Webhook(secret);
+      } catch (error) {
+        return misconfigured(`${secretEnvVar} is invalid: ${String(error)}`);
+      }
+
+      const missing = SVIX_HEADERS.filter((name) => !request.headers.get(name));
+      if (missing.length > 0) {
+        return missingHeaders(missing, "Svix");
+      }
+      const svixHeaders = {
+        "svix-id": request.headers.get("svix-id")!,
+        "svix-timestamp": request.headers.get("svix-timestamp")!,
+        "svix-signature": request.headers.get("svix-signature")!,
+      };
+      const stale = checkTimestamp(svixHeaders["svix-timestamp"]);
+      if (stale) {
+        return stale;
+      }
+
+      const payload = await request.text();
+      try {
+        wh.verify(payload, svixHeaders);
+      } catch (error) {
+        return invalidSignature(String(error));
+      }
+      return { ok: true, payload, deliveryId: svixHeaders["svix-id"] };
+    },
+  };
+}
+
+/**
+ * Webhooks signed with an HMAC-SHA256 of the raw body in a single header,
+ * e.g. `X-Signature: sha256=<hex>`.
+ */
+export function hmacSha256Verifier({
+  secretEnvVar,
+  signatureHeader,
+  idHeader,
+  prefix = "",
+  encoding = "hex",
+}: {
+  secretEnvVar: string;
+  signatureHeader: string;
+  // header carrying a unique delivery ID, if the provider sends one
+  idHeader?: string;
+  prefix?: string;
+  encoding?: "hex" | "base64";
+}): WebhookVerifier {
+  return {
+    secretEnvVar,
+    async verify(request, secret) {
+      const header = request.headers.get(signatureHeader);
+      if (!header) {
+        return missingHeaders([signatureHeader]);
+      }
+      const payload = await request.text();
+      const expected = prefix + (await hmacSha256(secret, payload, encoding));
+      if (!timingSafeEqual(header.trim(), expected)) {
+        return invalidSignature(`${signatureHeader} doesn't match the body`);
+      }
+      const deliveryId = idHeader
+        ? (request.headers.get(idHeader) ?? undefined)
+        : undefined;
+      return { ok: true, payload, deliveryId };
+    },
+  };
+}
+
+/**
+ * Stripe-style signatures: `Stripe-Signature: t=<unix seconds>,v1=<hex>`,
+ * where v1 is an HMAC-SHA256 of `<t>.<body>`. Several v1 entries may be
+ * present while a secret is being rolled.
+ */
+export function timestampedSignatureVerifier({
+  secretEnvVar,
+  signatureHeader = "stripe-signature",
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+}: {
+  secretEnvVar: string;
+  signatureHeader?: string;
+  toleranceSeconds?: number;
+}): WebhookVerifier {
+  return {
+    secretEnvVar,
+    async verify(request, secret) {
+      const header = request.headers.get(signatureHeader);
+      if (!header) {
+        return missingHeaders([signatureHeader]);
+      }
+      const parts = header.split(",").map((part) => part.trim().split("="));
+      const timestamp = parts.find(([key]) => key === "t")?.[1];
+      const signatures = parts
+        .filter(([key]) => key === "v1")
+        .map(([, value]) => value);
+      if (!timestamp || signatures.length === 0) {
+        return invalidSignature(`${signatureHeader} is missing t or v1`);
+      }
+      const stale = checkTimestamp(timestamp, toleranceSeconds);
+      if (stale) {
+        return stale;
+      }
+
+      const payload = await request.text();
+      const signedPayload = `${timestamp}.${payload}`;
+      const expected = await hmacSha256(secret, signedPayload, "hex");
+      const matches = signatures.some((signature) =>
+        timingSafeEqual(signature, expected),
+      );
+      if (!matches) {
+        return invalidSignature(`No ${signatureHeader} v1 signature matches`);
+      }
+      return { ok: true, payload };
+    },
+  };
+}
+
+export async function hmacSha256(
+  secret: string,
+  message: string,
+  encoding: "hex" | "base64",
+) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, encoder.encode(message)),
+  );
+  if (encoding === "base64") {
+    return btoa(String.fromCharCode(...signature));
+  }
+  return toHex(signature);
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function checkTimestamp(
+  value: string,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+): VerificationResult | null {
+  const timestamp = Number(value);
+  const skew = Math.abs(Date.now() / 1000 - timestamp);
+  if (Number.isFinite(timestamp) && skew <= toleranceSeconds) {
+    return null;
+  }
+  return {
+    ok: false,
+    status: 400,
+    error: "Stale webhook timestamp",
+    reason: `Timestamp ${value} is outside the ${toleranceSeconds}s tolerance`,
+  };
+}
+
+function missingHeaders(
+  names: readonly string[],
+  kind = "signature",
+): VerificationResult {
+  return {
+    ok: false,
+    status: 400,
+    error: `Missing ${kind} headers`,
+    reason: `Missing ${names.join(", ")}`,
+  };
+}
+
+function invalidSignature(reason: string): VerificationResult {
+  return {
+    ok: false,
+    status: 400,
+    error: "Invalid webhook signature",
+    reason,
+  };
+}
+
+function misconfigured(reason: string): VerificationResult {
+  return {
+    ok: false,
+    status: 500,
+    error: "Webhook endpoint misconfigured",
+    reason,
+  };
+}
@@ -0,0 +1,208 @@
+import { HttpRouter } from "convex/server";
+import { GenericValidator, Infer } from "convex/values";
+import { ActionCtx, httpAction } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { sha256Hex } from "./crypto";
+import { parseWithValidator } from "./validate";
+
+export type VerificationResult =
+  | { ok: true; payload: string; deliveryId?: string }
+  | { ok: false; status: number; error: string; reason: string };
+
+/**
+ * Checks that a request really comes from the provider. Receives the secret
+ * read from `secretEnvVar`, the framework answers 500 when it isn't set.
+ */
+export type WebhookVerifier = {
+  secretEnvVar: string;
+  verify: (request: Request, secret: string) => Promise<VerificationResult>;
+};
+
+export type HandlerOutcome =
+  | { status: "processed" | "ignored"; detail?: string }
+  | void;
+
+type WebhookOutcome =
+  | { status: "processed" | "ignored"; detail?: string }
+  | { status: "rejected"; detail: string };
+
+export type WebhookEventInfo = { id: string; type: string };
+
+export type WebhookHandler = {
+  validator: GenericValidator;
+  handle: (
+    ctx: ActionCtx,
+    data: never,
+    event: WebhookEventInfo,
+  ) => Promise<HandlerOutcome>;
+};
+
+/**
+ * Pairs a payload validator with the function handling the validated data,
+ * so `data` is typed from the validator.
+ */
+export function webhookHandler<V extends GenericValidator>(
+  validator: V,
+  handle: (
+    ctx: ActionCtx,
+    data: Infer<V>,
+    event: WebhookEventInfo,
+  ) => Promise<HandlerOutcome>,
+): WebhookHandler {
+  return { validator, handle };
+}
+
+export type WebhookProvider = {
+  // recorded with every delivery, e.g. "clerk"
+  source: string;
+  path: string;
+  verifier: WebhookVerifier;
+  // pulls the event type, data and (if the verifier didn't supply one) the
+  // delivery ID out of the parsed body
+  parseEvent: (body: unknown) => {
+    type: string;
+    data: unknown;
+    deliveryId?: string;
+  } | null;
+  handlers: Record<string, WebhookHandler>;
+};
+
+/**
+ * Routes `provider.path` to a POST handler that verifies the signature,
+ * skips deliveries already processed, validates the payload against the
+ * handler's validator and records the outcome in `webhookEvents`.
+ */
+export function registerWebhook(http: HttpRouter, provider: WebhookProvider) {
+  http.route({
+    path: provider.path,
+    method: "POST",
+    handler: httpAction(async (ctx, request) => {
+      const { source } = provider;
+      const reject = (status: number, error: string, reason: string) => {
+        console.error(`Rejected ${source} webhook, ${error}: ${reason}`);
+        return jsonResponse({ error, reason }, status);
+      };
+
+      const secret = process.env[provider.verifier.secretEnvVar];
+      if (!secret) {
+        return reject(
+          500,
+          "Webhook endpoint misconfigured",
+          `${provider.verifier.secretEnvVar} is not set on the Convex deployment`,
+        );
+      }
+      const verification = await provider.verifier.verify(request, secret);
+      if (!verification.ok) {
+        const { status, error, reason } = verification;
+        return reject(status, error, reason);
+      }
+
+      let body: unknown;
+      try {
+        body = JSON.parse(verification.payload);
+      } catch {
+        return reject(400, "Invalid webhook body", "Body is not valid JSON");
+      }
+      const event = provider.parseEvent(body);
+      if (event === null) {
+        return reject(422, "Malformed webhook payload", "Missing event type");
+      }
+      const deliveryId =
+        verification.deliveryId ??
+        event.deliveryId ??
+        (await sha256Hex(verification.payload));
+
+      const claimed = await ctx.runMutation(internal.webhooks.claim, {
+        source,
+        deliveryId,
+        eventType: event.type,
+      });
+      if (!claimed) {
+        console.log(`Skipped duplicate ${source} webhook delivery`, deliveryId);
+        return new Response(null, { status: 200 });
+      }
+
+      let outcome: WebhookOutcome;
+      try {
+        outcome = await dispatch(ctx, provider, event, deliveryId);
+      } catch (error) {
+        await ctx.runMutation(internal.webhooks.finish, {
+          source,
+          deliveryId,
+          status: "failed",
+          detail: String(error),
+        });
+        throw error;
+      }
+      await ctx.runMutation(internal.webhooks.finish, {
+        source,
+        deliveryId,
+        ...outcome,
+      });
+
+      if (outcome.status === "rejected") {
+        // signed but unexpected payloads are recorded and answered with a
+        // 422, so the delivery shows up as failed on the provider's side
+        // instead of writing garbage
+        console.error(
+          `Malformed ${source} webhook event ${event.type}: ${outcome.detail}`,
+        );
+        await ctx.runMutation(internal.webhooks.recordMalformed, {
+          source,
+          eventType: event.type,
+          deliveryId,
+          reason: outcome.detail,
+          payload: JSON.stringify(event.data),
+        });
+        return jsonResponse(
+          { error: "Malformed webhook payload", reason: outcome.detail },
+          422,
+        );
+      }
+      return new Response(null, { status: 200 });
+    }),
+  });
+}
+
+async function dispatch(
+  ctx: ActionCtx,
+  provider: WebhookProvider,
+  event: { type: string; data: unknown },
+  deliveryId: string,
+): Promise<WebhookOutcome> {
+  const handler = provider.handlers[event.type];
+  if (!handler) {
+    console.log(`Ignored ${provider.source} webhook event`, event.type);
+    return { status: "ignored", detail: "Unhandled event type" };
+  }
+  const parsed = parseWithValidator(handler.validator, event.data);
+  if (!parsed.ok) {
+    return { status: "rejected", detail: parsed.reason };
+  }
+  const outcome = await handler.handle(ctx, parsed.value as never, {
+    id: deliveryId,
+    type: event.type,
+  });
+  return outcome ?? { status: "processed" };
+}
+
+/**
+ * Reports, per provider, whether its webhook secret is set.
+ */
+export function webhookHealth(providers: WebhookProvider[]) {
+  return Object.fromEntries(
+    providers.map((provider) => [
+      provider.source,
+      {
+        secretConfigured: Boolean(process.env[provider.verifier.secretEnvVar]),
+      },
+    ]),
+  );
+}
+
+export function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,100 @@
+import { query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { clerkOrganizationMembershipValidator } from "./clerk";
+import { upsertOrganization } from "./organizations";
+import { auditedInternalMutation } from "./lib/functions";
+import { getCurrentUser } from "./users";
+
+/**
+ * The organizations the current user belongs to, with their role in each.
+ */
+export const listForCurrentUser = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (user === null) {
+      return [];
+    }
+    const memberships = await ctx.db
+      .query("memberships")
+      .withIndex("byUserExternalId", (q) =>
+        q.eq("userExternalId", user.externalId),
+      )
+      .collect();
+    const result = [];
+    for (const membership of memberships) {
+      const organization = await ctx.db.get(membership.organizationId);
+      if (organization !== null && organization.deletedAt === undefined) {
+        result.push({ ...membership, organization });
+      }
+    }
+    return result;
+  },
+});
+
+export const upsertFromClerk = auditedInternalMutation({
+  args: { data: clerkOrganizationMembershipValidator },
+  actor: {
+    source: "webhook",
+    actorLabel: "Clerk",
+    action: "memberships.upsertFromClerk",
+  },
+  async handler(ctx, { data }) {
+    // the payload embeds the organization, which lets us handle a membership
+    // that arrives before its `organization.created` event
+    const { organizationId, result } = await upsertOrganization(
+      ctx,
+      data.organization,
+    );
+    if (result === "deleted") {
+      return "deleted" as const;
+    }
+
+    const membershipAttributes = {
+      organizationId,
+      externalId: data.id,
+      userExternalId: data.public_user_data.user_id,
+      role: data.role,
+      clerkCreatedAt: data.created_at,
+      clerkUpdatedAt: data.updated_at,
+    };
+
+    const membership = await membershipByExternalId(ctx, data.id);
+    if (membership === null) {
+      await ctx.db.insert("memberships", membershipAttributes);
+    } else if (data.updated_at < membership.clerkUpdatedAt) {
+      // delivered out of order, we already have a newer version
+      return "stale" as const;
+    } else {
+      await ctx.db.patch(membership._id, membershipAttributes);
+    }
+    return "applied" as const;
+  },
+});
+
+export const deleteFromClerk = auditedInternalMutation({
+  args: { clerkMembershipId: v.string() },
+  actor: {
+    source: "webhook",
+    actorLabel: "Clerk",
+    action: "memberships.deleteFromClerk",
+  },
+  async handler(ctx, { clerkMembershipId }) {
+    const membership = await membershipByExternalId(ctx, clerkMembershipId);
+
+    if (membership !== null) {
+      await ctx.db.delete(membership._id);
+    } else {
+      console.warn(
+        `Can't delete membership, there is none for Clerk membership ID: ${clerkMembershipId}`,
+      );
+    }
+  },
+});
+
+async function membershipByExternalId(ctx: QueryCtx, externalId: string) {
+  return await ctx.db
+    .query("memberships")
+    .withIndex("byExternalId", (q) => q.eq("externalId", externalId))
+    .unique();
+}
@@ -0,0 +1,110 @@
+import { MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { ClerkOrganization, clerkOrganizationValidator } from "./clerk";
+import { auditedInternalMutation } from "./lib/functions";
+
+export const upsertFromClerk = auditedInternalMutation({
+  args: { data: clerkOrganizationValidator },
+  actor: {
+    source: "webhook",
+    actorLabel: "Clerk",
+    action: "organizations.upsertFromClerk",
+  },
+  async handler(ctx, { data }) {
+    return await upsertOrganization(ctx, data);
+  },
+});
+
+export const deleteFromClerk = auditedInternalMutation({
+  args: { clerkOrganizationId: v.string() },
+  actor: {
+    source: "webhook",
+    actorLabel: "Clerk",
+    action: "organizations.deleteFromClerk",
+  },
+  async handler(ctx, { clerkOrganizationId }) {
+    const organization = await organizationByExternalId(
+      ctx,
+      clerkOrganizationId,
+    );
+
+    if (organization === null) {
+      // leave a tombstone anyway, so an `organization.created` or membership
+      // event delivered after the deletion doesn't resurrect it
+      console.warn(
+        `Deleting unknown organization, there is none for Clerk organization ID: ${clerkOrganizationId}`,
+      );
+      const now = Date.now();
+      await ctx.db.insert("organizations", {
+        name: "Deleted organization",
+        slug: clerkOrganizationId,
+        externalId: clerkOrganizationId,
+        clerkCreatedAt: now,
+        clerkUpdatedAt: now,
+        deletedAt: now,
+      });
+      return;
+    }
+    if (organization.deletedAt !== undefined) {
+      return;
+    }
+
+    // Clerk doesn't send `organizationMembership.deleted` for each member
+    // when the whole organization goes away
+    const memberships = await ctx.db
+      .query("memberships")
+      .withIndex("byOrganizationId", (q) =>
+        q.eq("organizationId", organization._id),
+      )
+      .collect();
+    for (const membership of memberships) {
+      await ctx.db.delete(membership._id);
+    }
+    await ctx.db.patch(organization._id, { deletedAt: Date.now() });
+  },
+});
+
+export async function upsertOrganization(
+  ctx: MutationCtx,
+  data: ClerkOrganization,
+) {
+  const organizationAttributes = {
+    name: data.name,
+    slug: data.slug,
+    externalId: data.id,
+    imageUrl: data.image_url ?? undefined,
+    createdByExternalId: data.created_by ?? undefined,
+    publicMetadata: data.public_metadata ?? undefined,
+    clerkCreatedAt: data.created_at,
+    clerkUpdatedAt: data.updated_at,
+  };
+
+  const organization = await organizationByExternalId(ctx, data.id);
+  if (organization === null) {
+    const organizationId = await ctx.db.insert(
+      "organizations",
+      organizationAttributes,
+    );
+    return { organizationId, result: "applied" as const };
+  }
+  if (organization.deletedAt !== undefined) {
+    // Clerk never reuses organization IDs, so this is a late delivery
+    return { organizationId: organization._id, result: "deleted" as const };
+  }
+  if (data.updated_at < organization.clerkUpdatedAt) {
+    // delivered out of order, we already have a newer version
+    return { organizationId: organization._id, result: "stale" as const };
+  }
+  await ctx.db.patch(organization._id, organizationAttributes);
+  return { organizationId: organization._id, result: "applied" as const };
+}
+
+export async function organizationByExternalId(
+  ctx: QueryCtx,
+  externalId: string,
+) {
+  return await ctx.db
+    .query("organizations")
+    .withIndex("byExternalId", (q) => q.eq("externalId", externalId))
+    .unique();
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import { setupUsers } from "./test.fixtures";
+
+// Grace is an admin, but projects are private to their owner all the same
+async function setup() {
+  const { t, asUser, asAdmin } = await setupUsers();
+  return { t, asUser, asOther: asAdmin };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("projects", () => {
+  test("are listed most recently updated first", async () => {
+    const { asUser } = await setup();
+    const first = await asUser.mutation(api.projects.create, {
+      title: "  Launch video ",
+      sourceText: "Meet the new app. It turns text into video.",
+    });
+    vi.advanceTimersByTime(1000);
+    await asUser.mutation(api.projects.create, { title: "Tutorial" });
+    vi.advanceTimersByTime(1000);
+    await asUser.mutation(api.projects.rename, {
+      projectId: first,
+      title: "Launch trailer",
+    });
+
+    const projects = await asUser.query(api.projects.list, {});
+    expect(projects.map((project) => project.title)).toEqual([
+      "Launch trailer",
+      "Tutorial",
+    ]);
+    expect(projects[0]).toMatchObject({ wordCount: 9, status: "draft" });
+  });
+
+  test("can be duplicated, archived and deleted", async () => {
+    const { asUser } = await setup();
+    const projectId = await asUser.mutation(api.projects.create, {
+      title: "Launch video",
+      sourceText: "Meet the new app.",
+    });
+
+    const copyId = await asUser.mutation(api.projects.duplicate, {
+      projectId,
+    });
+    await asUser.mutation(api.projects.setArchived, {
+      projectId,
+      archived: true,
+    });
+    expect(
+      await asUser.query(api.projects.get, { projectId: copyId }),
+    ).toMatchObject({
+      title: "Launch video (copy)",
+      sourceText: "Meet the new app.",
+    });
+    expect(
+      (await asUser.query(api.projects.list, { archived: true })).map(
+        (project) => project._id,
+      ),
+    ).toEqual([projectId]);
+
+    await asUser.mutation(api.projects.remove, { projectId });
+    expect(await asUser.query(api.projects.list, { archived: true })).toEqual(
+      [],
+    );
+  });
+
+  test("belong to the user who created them", async () => {
+    const { asUser, asOther } = await setup();
+    const projectId = await asUser.mutation(api.projects.create, {
+      title: "Launch video",
+    });
+
+    expect(await asOther.query(api.projects.list, {})).toEqual([]);
+    expect(await asOther.query(api.projects.get, { projectId })).toBeNull();
+    expect(
+      await asUser.query(api.projects.get, { projectId: "not-an-id" }),
+    ).toBeNull();
+    await expect(
+      asOther.mutation(api.projects.remove, { projectId }),
+    ).rejects.toThrow(/Project not found/);
+  });
+
+  test("need a title", async () => {
+    const { asUser } = await setup();
+
+    await expect(
+      asUser.mutation(api.projects.create, { title: "  " }),
+    ).rejects.toThrow(/title/);
+  });
+});
@@ -0,0 +1,214 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  authedMutation,
+  AuthedMutationCtx,
+  authedQuery,
+  AuthedQueryCtx,
+} from "./lib/functions";
+import { InvalidInput, NotFound } from "./lib/errors";
+import { emitWebhookEvent } from "./lib/outgoingWebhooks";
+import { countWords } from "./lib/scenes";
+
+const MAX_TITLE_LENGTH = 120;
+// well under Convex's 1 MiB document limit
+const MAX_SOURCE_TEXT_LENGTH = 100_000;
+const EXCERPT_LENGTH = 160;
+
+/**
+ * The current user's projects, most recently updated first. The source text
+ * is cut down to an excerpt for the cards.
+ */
+export const list = authedQuery({
+  args: { archived: v.optional(v.boolean()) },
+  handler: async (ctx, { archived }) => {
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("byUserIdAndStatus", (q) =>
+        q
+          .eq("userId", ctx.user._id)
+          .eq("status", archived ? "archived" : "draft"),
+      )
+      .order("desc")
+      .collect();
+    return projects.map(({ sourceText, ...project }) => ({
+      ...project,
+      excerpt:
+        sourceText.length > EXCERPT_LENGTH
+          ? `${sourceText.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+          : sourceText,
+      wordCount: countWords(sourceText),
+    }));
+  },
+});
+
+/**
+ * The project, or null when the ID is malformed or the project is gone or
+ * someone else's. Takes a plain string since it comes from the URL.
+ */
+export const get = authedQuery({
+  args: { projectId: v.string() },
+  handler: async (ctx, { projectId }) => {
+    const id = ctx.db.normalizeId("projects", projectId);
+    const project = id === null ? null : await ctx.db.get(id);
+    return project !== null && project.userId === ctx.user._id ? project : null;
+  },
+});
+
+export const create = authedMutation({
+  args: { title: v.string(), sourceText: v.optional(v.string()) },
+  handler: async (ctx, { title, sourceText }) => {
+    const projectId = await ctx.db.insert("projects", {
+      userId: ctx.user._id,
+      title: validTitle(title),
+      sourceText: validSourceText(sourceText ?? ""),
+      status: "draft",
+      updatedAt: Date.now(),
+    });
+    await emitProjectEvent(ctx, "project.created", projectId);
+    return projectId;
+  },
+});
+
+export const rename = authedMutation({
+  args: { projectId: v.id("projects"), title: v.string() },
+  handler: async (ctx, { projectId, title }) => {
+    await ownProject(ctx, projectId);
+    await ctx.db.patch(projectId, {
+      title: validTitle(title),
+      updatedAt: Date.now(),
+    });
+    await emitProjectEvent(ctx, "project.updated", projectId);
+  },
+});
+
+/**
+ * Copies the project's title, text and scenes into a new draft.
+ */
+export const duplicate = authedMutation({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, { projectId }) => {
+    const project = await ownProject(ctx, projectId);
+    const copyId = await ctx.db.insert("projects", {
+      userId: ctx.user._id,
+      title: `${project.title} (copy)`.slice(0, MAX_TITLE_LENGTH),
+      sourceText: project.sourceText,
+      status: "draft",
+      updatedAt: Date.now(),
+    });
+    for (const scene of await projectScenes(ctx, projectId)) {
+      await ctx.db.insert("scenes", {
+        projectId: copyId,
+        userId: ctx.user._id,
+        position: scene.position,
+        heading: scene.heading,
+        text: scene.text,
+        startMs: scene.startMs,
+        durationMs: scene.durationMs,
+      });
+    }
+    await emitProjectEvent(ctx, "project.created", copyId);
+    return copyId;
+  },
+});
+
+/**
+ * Moves the project out of the dashboard, or back with `archived: false`.
+ */
+export const setArchived = authedMutation({
+  args: { projectId: v.id("projects"), archived: v.boolean() },
+  handler: async (ctx, { projectId, archived }) => {
+    const project = await ownProject(ctx, projectId);
+    if ((project.status === "archived") === archived) {
+      return;
+    }
+    const now = Date.now();
+    await ctx.db.patch(
+      projectId,
+      archived
+        ? { status: "archived", archivedAt: now, updatedAt: now }
+        : { status: "draft", archivedAt: undefined, updatedAt: now },
+    );
+    await emitProjectEvent(ctx, "project.updated", projectId);
+  },
+});
+
+export const remove = authedMutation({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, { projectId }) => {
+    const project = await ownProject(ctx, projectId);
+    for (const scene of await projectScenes(ctx, projectId)) {
+      await ctx.db.delete(scene._id);
+    }
+    await ctx.db.delete(projectId);
+    await emitWebhookEvent(ctx, ctx.user._id, "project.deleted", {
+      id: project._id,
+    });
+  },
+});
+
+export async function ownProject(
+  ctx: AuthedQueryCtx,
+  projectId: Id<"projects">,
+) {
+  const project = await ctx.db.get(projectId);
+  if (project === null || project.userId !== ctx.user._id) {
+    throw new NotFound("Project");
+  }
+  return project;
+}
+
+/**
+ * The project's scenes in order.
+ */
+export async function projectScenes(
+  ctx: AuthedQueryCtx,
+  projectId: Id<"projects">,
+) {
+  return await ctx.db
+    .query("scenes")
+    .withIndex("byProjectIdAndPosition", (q) => q.eq("projectId", projectId))
+    .collect();
+}
+
+async function emitProjectEvent(
+  ctx: AuthedMutationCtx,
+  type: "project.created" | "project.updated",
+  projectId: Id<"projects">,
+) {
+  const project = (await ctx.db.get(projectId))!;
+  await emitWebhookEvent(ctx, ctx.user._id, type, projectPayload(project));
+}
+
+function projectPayload(project: Doc<"projects">) {
+  return {
+    id: project._id,
+    title: project.title,
+    status: project.status,
+    wordCount: countWords(project.sourceText),
+    createdAt: project._creationTime,
+    updatedAt: project.updatedAt,
+  };
+}
+
+function validTitle(title: string) {
+  const trimmed = title.trim();
+  if (trimmed === "") {
+    throw new InvalidInput("Give the project a title");
+  }
+  if (trimmed.length > MAX_TITLE_LENGTH) {
+    throw new InvalidInput(
+      `Titles can be up to ${MAX_TITLE_LENGTH} characters long`,
+    );
+  }
+  return trimmed;
+}
+
+export function validSourceText(sourceText: string) {
+  if (sourceText.length > MAX_SOURCE_TEXT_LENGTH) {
+    throw new InvalidInput(
+      `The text can be up to ${MAX_SOURCE_TEXT_LENGTH} characters long`,
+    );
+  }
+  return sourceText;
+}
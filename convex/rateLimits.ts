@@ -0,0 +1,24 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { checkRateLimit, RATE_LIMITS, RateLimitName } from "./lib/rateLimit";
+
+const rateLimitNameValidator = v.union(
+  ...(Object.keys(RATE_LIMITS) as RateLimitName[]).map((name) =>
+    v.literal(name),
+  ),
+);
+
+/**
+ * `checkRateLimit` for actions and HTTP actions, which can't write to the
+ * database themselves.
+ */
+export const consume = internalMutation({
+  args: {
+    name: rateLimitNameValidator,
+    key: v.string(),
+    count: v.optional(v.number()),
+  },
+  async handler(ctx, { name, key, count }) {
+    return await checkRateLimit(ctx, name, key, count);
+  },
+});
@@ -0,0 +1,101 @@
+/// <reference types="vite/client" />
+import { convexTest, TestConvex } from "convex-test";
+import { describe, expect, test } from "vitest";
+import fixture from "../fixtures/clerk-users.json?raw";
+import { internal } from "./_generated/api";
+import schema from "./schema";
+import { clerkUser } from "./test.fixtures";
+import { modules } from "./test.setup";
+
+const { pages } = JSON.parse(fixture) as { pages: unknown[][] };
+
+async function setup() {
+  const t = convexTest(schema, modules);
+  // Ada is out of date, and Clerk no longer knows the other user
+  await t.mutation(internal.users.upsertFromClerk, {
+    data: clerkUser({
+      id: "user_2aFixtureAda",
+      last_name: "Byron",
+      updated_at: 1735689600000,
+    }),
+  });
+  await t.mutation(internal.users.upsertFromClerk, {
+    data: clerkUser({ id: "user_gone" }),
+  });
+  return t;
+}
+
+async function getUser(t: TestConvex<typeof schema>, externalId: string) {
+  return await t.run((ctx) =>
+    ctx.db
+      .query("users")
+      .withIndex("byExternalId", (q) => q.eq("externalId", externalId))
+      .unique(),
+  );
+}
+
+describe("reconcileFromImport", () => {
+  test("creates, updates and flags users from the fixture", async () => {
+    const t = await setup();
+    const report = await t.action(internal.reconcile.reconcileFromImport, {
+      pages: [...pages, [{ id: "user_broken" }]],
+    });
+
+    expect(report).toMatchObject({
+      created: 2,
+      updated: 1,
+      unchanged: 0,
+      skipped: 0,
+      invalid: 1,
+      orphaned: 1,
+      orphanedExternalIds: ["user_gone"],
+    });
+    expect(await getUser(t, "user_2aFixtureAda")).toMatchObject({
+      name: "Ada Lovelace",
+      role: "owner",
+    });
+    expect(await getUser(t, "user_2aFixtureGrace")).toMatchObject({
+      email: "grace@example.com",
+    });
+    expect(await getUser(t, "user_2aFixtureNoName")).not.toBeNull();
+    expect((await getUser(t, "user_gone"))?.orphanedAt).toBeDefined();
+
+    const [run] = await t.run((ctx) =>
+      ctx.db.query("reconciliationRuns").collect(),
+    );
+    expect(run).toMatchObject({
+      source: "import",
+      status: "completed",
+      created: 2,
+      updated: 1,
+      orphaned: 1,
+    });
+  });
+
+  test("doesn't flag users whose Clerk payload is invalid", async () => {
+    const t = await setup();
+    const report = await t.action(internal.reconcile.reconcileFromImport, {
+      pages: [[{ id: "user_gone", email_addresses: "not a list" }]],
+    });
+
+    expect(report).toMatchObject({ invalid: 1, orphaned: 1 });
+    expect(report.orphanedExternalIds).toEqual(["user_2aFixtureAda"]);
+    expect((await getUser(t, "user_gone"))?.orphanedAt).toBeUndefined();
+  });
+
+  test("leaves users unchanged on a second run", async () => {
+    const t = await setup();
+    await t.action(internal.reconcile.reconcileFromImport, { pages });
+
+    const report = await t.action(internal.reconcile.reconcileFromImport, {
+      pages,
+      flagOrphans: false,
+    });
+    expect(report).toMatchObject({
+      created: 0,
+      updated: 0,
+      unchanged: 3,
+      orphaned: 0,
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import {
+  ActionCtx,
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { ClerkUser, clerkUserValidator } from "./clerk";
+import { clerkApiError, clerkFetch } from "./lib/clerkApi";
+import { auditedInternalMutation } from "./lib/functions";
+import { suspensionFromClerk } from "./lib/suspension";
+import { parseWithValidator } from "./lib/validate";
+import { userAttributesFromClerk, userByExternalId } from "./users";
+
+const CLERK_PAGE_SIZE = 100;
+// users per mutation, keeps each transaction well under Convex limits
+const BATCH_SIZE = 50;
+const MAX_SAMPLES = 50;
+
+type ReconciliationSource = "clerkApi" | "import";
+
+type ReconciliationReport = {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  invalid: number;
+  orphaned: number;
+  orphanedExternalIds: string[];
+  errors: string[];
+};
+
+/**
+ * Reconciles the users table against pages of Clerk user JSON, e.g. a file
+ * exported from the Clerk API. Each page is an array of users, as returned by
+ * `GET /v1/users`:
+ *
+ *   npx convex run reconcile:reconcileFromImport "$(cat fixtures/clerk-users.json)"
+ */
+export const reconcileFromImport = internalAction({
+  args: {
+    pages: v.array(v.array(v.any())),
+    // turn off for partial exports, which would flag everyone else
+    flagOrphans: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { pages, flagOrphans }) => {
+    async function* source() {
+      yield* pages;
+    }
+    return await reconcile(ctx, "import", source(), flagOrphans ?? true);
+  },
+});
+
+/**
+ * Reconciles the users table against the live Clerk Backend API, paging
+ * through every user. Requires CLERK_SECRET_KEY on the Convex deployment.
+ */
+export const reconcileFromClerk = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    return await reconcile(ctx, "clerkApi", fetchClerkUserPages(), true);
+  },
+});
+
+/**
+ * Re-fetches one user from the Clerk Backend API and applies it, e.g. when
+ * an admin forces a resync. Flags the user as orphaned if Clerk no longer
+ * knows them.
+ */
+export const reconcileUser = internalAction({
+  args: { userId: v.id("users"), externalId: v.string() },
+  handler: async (
+    ctx,
+    { userId, externalId },
+  ): Promise<"updated" | "unchanged" | "skipped" | "orphaned"> => {
+    const response = await clerkFetch(
+      `/users/${encodeURIComponent(externalId)}`,
+    );
+    if (response.status === 404) {
+      await ctx.runMutation(internal.reconcile.flagOrphans, {
+        userIds: [userId],
+      });
+      return "orphaned";
+    }
+    if (!response.ok) {
+      throw await clerkApiError(response);
+    }
+    const parsed = parseWithValidator(
+      clerkUserValidator,
+      await response.json(),
+    );
+    if (!parsed.ok) {
+      throw new Error(`Invalid Clerk user ${externalId}: ${parsed.reason}`);
+    }
+    const counts = await ctx.runMutation(internal.reconcile.applyBatch, {
+      users: [parsed.value],
+    });
+    return counts.skipped > 0
+      ? "skipped"
+      : counts.unchanged > 0
+        ? "unchanged"
+        : "updated";
+  },
+});
+
+async function reconcile(
+  ctx: ActionCtx,
+  source: ReconciliationSource,
+  pages: AsyncIterable<unknown[]>,
+  flagOrphans: boolean,
+): Promise<ReconciliationReport> {
+  const runId = await ctx.runMutation(internal.reconcile.startRun, { source });
+  const report: ReconciliationReport = {
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    invalid: 0,
+    orphaned: 0,
+    orphanedExternalIds: [],
+    errors: [],
+  };
+  const seen = new Set<string>();
+
+  try {
+    for await (const page of pages) {
+      const valid: ClerkUser[] = [];
+      for (const item of page) {
+        const parsed = parseWithValidator(clerkUserValidator, item);
+        if (parsed.ok) {
+          valid.push(parsed.value);
+          seen.add(parsed.value.id);
+        } else {
+          // Clerk still has this user, so they mustn't be flagged as orphaned
+          const externalId = externalIdOf(item);
+          if (externalId !== null) {
+            seen.add(externalId);
+          }
+          report.invalid++;
+          addSample(report.errors, parsed.reason);
+        }
+      }
+      for (let i = 0; i < valid.length; i += BATCH_SIZE) {
+        const counts = await ctx.runMutation(internal.reconcile.applyBatch, {
+          users: valid.slice(i, i + BATCH_SIZE),
+        });
+        report.created += counts.created;
+        report.updated += counts.updated;
+        report.unchanged += counts.unchanged;
+        report.skipped += counts.skipped;
+      }
+    }
+
+    if (flagOrphans) {
+      let cursor: string | null = null;
+      let isDone = false;
+      while (!isDone) {
+        const result: {
+          page: { _id: Id<"users">; externalId: string }[];
+          isDone: boolean;
+          continueCursor: string;
+        } = await ctx.runQuery(internal.reconcile.listLiveUsers, {
+          paginationOpts: { cursor, numItems: 200 },
+        });
+        const orphans = result.page.filter(
+          (user) => !seen.has(user.externalId),
+        );
+        if (orphans.length > 0) {
+          await ctx.runMutation(internal.reconcile.flagOrphans, {
+            userIds: orphans.map((user) => user._id),
+          });
+        }
+        report.orphaned += orphans.length;
+        for (const orphan of orphans) {
+          addSample(report.orphanedExternalIds, orphan.externalId);
+        }
+        cursor = result.continueCursor;
+        isDone = result.isDone;
+      }
+    }
+  } catch (error) {
+    addSample(report.errors, String(error));
+    await ctx.runMutation(internal.reconcile.finishRun, {
+      runId,
+      status: "failed",
+      report,
+    });
+    throw error;
+  }
+
+  await ctx.runMutation(internal.reconcile.finishRun, {
+    runId,
+    status: "completed",
+    report,
+  });
+  return report;
+}
+
+async function* fetchClerkUserPages(): AsyncGenerator<unknown[]> {
+  for (let offset = 0; ; offset += CLERK_PAGE_SIZE) {
+    const params = new URLSearchParams({
+      limit: String(CLERK_PAGE_SIZE),
+      offset: String(offset),
+      order_by: "created_at",
+    });
+    const response = await clerkFetch(`/users?${params}`);
+    if (!response.ok) {
+      throw await clerkApiError(response);
+    }
+    const page = (await response.json()) as unknown[];
+    if (page.length === 0) {
+      return;
+    }
+    yield page;
+    if (page.length < CLERK_PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+// The `id` of a payload that didn't pass validation, if it has one
+function externalIdOf(item: unknown) {
+  return typeof item === "object" &&
+    item !== null &&
+    "id" in item &&
+    typeof item.id === "string"
+    ? item.id
+    : null;
+}
+
+function addSample(samples: string[], sample: string) {
+  if (samples.length < MAX_SAMPLES) {
+    samples.push(sample);
+  }
+}
+
+export const startRun = internalMutation({
+  args: { source: v.union(v.literal("clerkApi"), v.literal("import")) },
+  async handler(ctx, { source }) {
+    return await ctx.db.insert("reconciliationRuns", {
+      source,
+      status: "running",
+      startedAt: Date.now(),
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+      invalid: 0,
+      orphaned: 0,
+      orphanedExternalIds: [],
+      errors: [],
+    });
+  },
+});
+
+export const applyBatch = auditedInternalMutation({
+  args: { users: v.array(clerkUserValidator) },
+  actor: {
+    source: "system",
+    actorLabel: "Reconciliation",
+    action: "reconcile.applyBatch",
+  },
+  async handler(ctx, { users }) {
+    const counts = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+    for (const data of users) {
+      const user = await userByExternalId(ctx, data.id);
+      const attributes = {
+        ...userAttributesFromClerk(data),
+        ...suspensionFromClerk(user, data),
+      };
+      if (user === null) {
+        await ctx.db.insert("users", attributes);
+        counts.created++;
+        continue;
+      }
+      if (
+        user.deletedAt !== undefined ||
+        (user.clerkUpdatedAt !== undefined &&
+          data.updated_at < user.clerkUpdatedAt)
+      ) {
+        counts.skipped++;
+        continue;
+      }
+      const changed = (
+        Object.keys(attributes) as (keyof typeof attributes)[]
+      ).some(
+        (key) => JSON.stringify(user[key]) !== JSON.stringify(attributes[key]),
+      );
+      if (changed || user.orphanedAt !== undefined) {
+        await ctx.db.patch(user._id, {
+          ...attributes,
+          orphanedAt: undefined,
+        });
+        counts.updated++;
+      } else {
+        counts.unchanged++;
+      }
+    }
+    return counts;
+  },
+});
+
+export const listLiveUsers = internalQuery({
+  args: { paginationOpts: paginationOptsValidator },
+  async handler(ctx, { paginationOpts }) {
+    const result = await ctx.db.query("users").paginate(paginationOpts);
+    return {
+      ...result,
+      page: result.page
+        .filter((user) => user.deletedAt === undefined)
+        .map((user) => ({ _id: user._id, externalId: user.externalId })),
+    };
+  },
+});
+
+export const flagOrphans = auditedInternalMutation({
+  args: { userIds: v.array(v.id("users")) },
+  actor: {
+    source: "system",
+    actorLabel: "Reconciliation",
+    action: "reconcile.flagOrphans",
+  },
+  async handler(ctx, { userIds }) {
+    const now = Date.now();
+    for (const userId of userIds) {
+      const user = await ctx.db.get(userId);
+      if (user !== null && user.orphanedAt === undefined) {
+        await ctx.db.patch(userId, { orphanedAt: now });
+      }
+    }
+  },
+});
+
+export const finishRun = internalMutation({
+  args: {
+    runId: v.id("reconciliationRuns"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    report: v.object({
+      created: v.number(),
+      updated: v.number(),
+      unchanged: v.number(),
+      skipped: v.number(),
+      invalid: v.number(),
+      orphaned: v.number(),
+      orphanedExternalIds: v.array(v.string()),
+      errors: v.array(v.string()),
+    }),
+  },
+  async handler(ctx, { runId, status, report }) {
+    await ctx.db.patch(runId, {
+      ...report,
+      status,
+      finishedAt: Date.now(),
+    });
+  },
+});
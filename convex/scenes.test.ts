@@ -0,0 +1,149 @@
+/// <reference types="vite/client" />
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import srt from "../fixtures/transcripts/sample.srt?raw";
+import { setupUsers } from "./test.fixtures";
+import { isInvalidInput, isNotFound } from "./lib/errors";
+
+async function setup() {
+  const { t, asUser, asAdmin } = await setupUsers();
+  const projectId = await asUser.mutation(api.projects.create, {
+    title: "Launch video",
+  });
+  await asUser.mutation(api.scenes.segment, {
+    projectId,
+    sourceText: "First scene.\n\nSecond scene.\n\nThird scene.",
+    segmentation: { by: "paragraph" },
+  });
+  const scenes = await asUser.query(api.scenes.list, { projectId });
+  return {
+    t,
+    asUser,
+    // Grace is an admin, but scenes are private to their owner all the same
+    asOther: asAdmin,
+    projectId,
+    sceneIds: scenes.map((scene) => scene._id),
+  };
+}
+
+describe("scenes", () => {
+  test("segmenting saves the text and replaces the scenes", async () => {
+    const { asUser, projectId } = await setup();
+    const count = await asUser.mutation(api.scenes.segment, {
+      projectId,
+      sourceText: "One. Two. Three.",
+      segmentation: { by: "sentences", count: 2 },
+    });
+
+    expect(count).toBe(2);
+    const scenes = await asUser.query(api.scenes.list, { projectId });
+    expect(scenes.map(({ position, text }) => ({ position, text }))).toEqual([
+      { position: 0, text: "One. Two." },
+      { position: 1, text: "Three." },
+    ]);
+    const project = await asUser.query(api.projects.get, { projectId });
+    expect(project?.sourceText).toBe("One. Two. Three.");
+  });
+
+  test("can be moved, split and merged", async () => {
+    const { asUser, projectId, sceneIds } = await setup();
+
+    await asUser.mutation(api.scenes.move, {
+      sceneId: sceneIds[2],
+      position: 0,
+    });
+    await asUser.mutation(api.scenes.split, {
+      sceneId: sceneIds[0],
+      at: "First".length,
+    });
+    let scenes = await asUser.query(api.scenes.list, { projectId });
+    expect(scenes.map((scene) => scene.text)).toEqual([
+      "Third scene.",
+      "First",
+      "scene.",
+      "Second scene.",
+    ]);
+
+    await asUser.mutation(api.scenes.mergeWithNext, { sceneId: sceneIds[0] });
+    scenes = await asUser.query(api.scenes.list, { projectId });
+    expect(scenes.map(({ position, text }) => ({ position, text }))).toEqual([
+      { position: 0, text: "Third scene." },
+      { position: 1, text: "First\n\nscene." },
+      { position: 2, text: "Second scene." },
+    ]);
+  });
+
+  test("rejects splits at the edge and merging the last scene", async () => {
+    const { asUser, sceneIds } = await setup();
+
+    const split = await asUser
+      .mutation(api.scenes.split, { sceneId: sceneIds[0], at: 0 })
+      .catch((error: unknown) => error);
+    expect(isInvalidInput(split)).toBe(true);
+    const merge = await asUser
+      .mutation(api.scenes.mergeWithNext, { sceneId: sceneIds[2] })
+      .catch((error: unknown) => error);
+    expect(isInvalidInput(merge)).toBe(true);
+    const move = await asUser
+      .mutation(api.scenes.move, { sceneId: sceneIds[0], position: 3 })
+      .catch((error: unknown) => error);
+    expect(isInvalidInput(move)).toBe(true);
+  });
+
+  test("can't be read or changed by other users", async () => {
+    const { asOther, projectId, sceneIds } = await setup();
+
+    const list = await asOther
+      .query(api.scenes.list, { projectId })
+      .catch((error: unknown) => error);
+    expect(isNotFound(list)).toBe(true);
+    const update = await asOther
+      .mutation(api.scenes.updateText, { sceneId: sceneIds[0], text: "Mine" })
+      .catch((error: unknown) => error);
+    expect(isNotFound(update)).toBe(true);
+  });
+
+  test("imported from captions keep their timing", async () => {
+    const { asUser, projectId } = await setup();
+    const result = await asUser.mutation(api.scenes.importTranscript, {
+      projectId,
+      fileName: "captions.srt",
+      content: srt,
+    });
+
+    expect(result.scenes).toBe(2);
+    const project = await asUser.query(api.projects.get, { projectId });
+    expect(project?.sourceText).toBe(result.sourceText);
+    const [first] = await asUser.query(api.scenes.list, { projectId });
+    expect(first).toMatchObject({ startMs: 1000, durationMs: 11000 });
+
+    // 5 of the 21 words stay in the first scene
+    await asUser.mutation(api.scenes.split, {
+      sceneId: first._id,
+      at: "Welcome back to the channel.".length,
+    });
+    const scenes = await asUser.query(api.scenes.list, { projectId });
+    expect(
+      scenes.map(({ startMs, durationMs }) => ({ startMs, durationMs })),
+    ).toEqual([
+      { startMs: 1000, durationMs: 2619 },
+      { startMs: 3619, durationMs: 8381 },
+      { startMs: 12000, durationMs: 2500 },
+    ]);
+  });
+
+  test("reject caption files that can't be parsed", async () => {
+    const { asUser, projectId } = await setup();
+    const error = await asUser
+      .mutation(api.scenes.importTranscript, {
+        projectId,
+        fileName: "captions.vtt",
+        content: "Not captions",
+      })
+      .catch((error: unknown) => error);
+
+    expect(isInvalidInput(error)).toBe(true);
+    const scenes = await asUser.query(api.scenes.list, { projectId });
+    expect(scenes).toHaveLength(3);
+  });
+});
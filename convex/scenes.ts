@@ -0,0 +1,257 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  authedMutation,
+  AuthedMutationCtx,
+  authedQuery,
+  AuthedQueryCtx,
+} from "./lib/functions";
+import { InvalidInput, NotFound } from "./lib/errors";
+import {
+  countWords,
+  estimateDurationMs,
+  MAX_SCENES_PER_PROJECT,
+  SceneDraft,
+  segmentationValidator,
+  splitIntoScenes,
+} from "./lib/scenes";
+import { cuesToScenes, parseTranscript } from "./lib/transcripts";
+import { ownProject, projectScenes, validSourceText } from "./projects";
+
+const MAX_SENTENCES_PER_SCENE = 20;
+const MAX_TRANSCRIPT_LENGTH = 1_000_000;
+
+/**
+ * The project's scenes in order.
+ */
+export const list = authedQuery({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, { projectId }) => {
+    await ownProject(ctx, projectId);
+    return await projectScenes(ctx, projectId);
+  },
+});
+
+/**
+ * Saves the project's source text and replaces its scenes with the text
+ * split by `segmentation`.
+ */
+export const segment = authedMutation({
+  args: {
+    projectId: v.id("projects"),
+    sourceText: v.string(),
+    segmentation: segmentationValidator,
+  },
+  handler: async (ctx, { projectId, sourceText, segmentation }) => {
+    await ownProject(ctx, projectId);
+    if (
+      segmentation.by === "sentences" &&
+      (!Number.isInteger(segmentation.count) ||
+        segmentation.count < 1 ||
+        segmentation.count > MAX_SENTENCES_PER_SCENE)
+    ) {
+      throw new InvalidInput(
+        `Scenes can have between 1 and ${MAX_SENTENCES_PER_SCENE} sentences`,
+      );
+    }
+    const drafts = splitIntoScenes(validSourceText(sourceText), segmentation);
+    return await replaceScenes(ctx, projectId, sourceText, drafts);
+  },
+});
+
+/**
+ * Replaces the project's scenes with the captions of a `.srt`, `.vtt` or
+ * YouTube JSON3 file, timed as in the original video, and its source text
+ * with their text.
+ */
+export const importTranscript = authedMutation({
+  args: {
+    projectId: v.id("projects"),
+    fileName: v.string(),
+    content: v.string(),
+  },
+  handler: async (ctx, { projectId, fileName, content }) => {
+    await ownProject(ctx, projectId);
+    if (content.length > MAX_TRANSCRIPT_LENGTH) {
+      throw new InvalidInput("Caption files can be up to 1 MB");
+    }
+    const drafts = cuesToScenes(parseTranscript(fileName, content));
+    const sourceText = validSourceText(
+      drafts.map((draft) => draft.text).join("\n\n"),
+    );
+    const scenes = await replaceScenes(ctx, projectId, sourceText, drafts);
+    return { scenes, sourceText };
+  },
+});
+
+export const updateText = authedMutation({
+  args: { sceneId: v.id("scenes"), text: v.string() },
+  handler: async (ctx, { sceneId, text }) => {
+    const scene = await ownScene(ctx, sceneId);
+    await ctx.db.patch(sceneId, {
+      text,
+      // imported scenes keep the timing of their captions
+      durationMs:
+        scene.startMs === undefined
+          ? estimateDurationMs(text)
+          : scene.durationMs,
+    });
+    await touchProject(ctx, scene.projectId);
+  },
+});
+
+/**
+ * Moves the scene to `position`, shifting the scenes in between.
+ */
+export const move = authedMutation({
+  args: { sceneId: v.id("scenes"), position: v.number() },
+  handler: async (ctx, { sceneId, position }) => {
+    const scene = await ownScene(ctx, sceneId);
+    const scenes = await projectScenes(ctx, scene.projectId);
+    if (
+      !Number.isInteger(position) ||
+      position < 0 ||
+      position >= scenes.length
+    ) {
+      throw new InvalidInput("There is no scene at that position");
+    }
+    const reordered = scenes.filter((other) => other._id !== sceneId);
+    reordered.splice(position, 0, scene);
+    await renumber(ctx, reordered);
+    await touchProject(ctx, scene.projectId);
+  },
+});
+
+/**
+ * Splits the scene in two at character offset `at` of its text.
+ */
+export const split = authedMutation({
+  args: { sceneId: v.id("scenes"), at: v.number() },
+  handler: async (ctx, { sceneId, at }) => {
+    const scene = await ownScene(ctx, sceneId);
+    const scenes = await projectScenes(ctx, scene.projectId);
+    if (scenes.length >= MAX_SCENES_PER_PROJECT) {
+      throw new InvalidInput(
+        `Projects can have up to ${MAX_SCENES_PER_PROJECT} scenes`,
+      );
+    }
+    const before = scene.text.slice(0, at).trim();
+    const after = scene.text.slice(at).trim();
+    if (before === "" || after === "") {
+      throw new InvalidInput("Place the cursor inside the text to split it");
+    }
+
+    const [beforeMs, afterMs] =
+      scene.startMs === undefined
+        ? [estimateDurationMs(before), estimateDurationMs(after)]
+        : splitDuration(scene.durationMs, before, after);
+    await ctx.db.patch(sceneId, { text: before, durationMs: beforeMs });
+    const newSceneId = await ctx.db.insert("scenes", {
+      projectId: scene.projectId,
+      userId: ctx.user._id,
+      position: scene.position + 1,
+      text: after,
+      startMs:
+        scene.startMs === undefined ? undefined : scene.startMs + beforeMs,
+      durationMs: afterMs,
+    });
+    const newScene = (await ctx.db.get(newSceneId))!;
+    const reordered = scenes.flatMap((other) =>
+      other._id === sceneId ? [other, newScene] : [other],
+    );
+    await renumber(ctx, reordered);
+    await touchProject(ctx, scene.projectId);
+    return newSceneId;
+  },
+});
+
+/**
+ * Appends the next scene's text to this one and removes the next scene.
+ */
+export const mergeWithNext = authedMutation({
+  args: { sceneId: v.id("scenes") },
+  handler: async (ctx, { sceneId }) => {
+    const scene = await ownScene(ctx, sceneId);
+    const scenes = await projectScenes(ctx, scene.projectId);
+    const index = scenes.findIndex((other) => other._id === sceneId);
+    const next = scenes[index + 1];
+    if (next === undefined) {
+      throw new InvalidInput("This is the last scene");
+    }
+
+    const text = [scene.text, next.heading, next.text]
+      .filter((part) => part)
+      .join("\n\n");
+    await ctx.db.patch(sceneId, {
+      text,
+      durationMs:
+        scene.startMs === undefined
+          ? estimateDurationMs(text)
+          : scene.durationMs + next.durationMs,
+    });
+    await ctx.db.delete(next._id);
+    await renumber(
+      ctx,
+      scenes.filter((other) => other._id !== next._id),
+    );
+    await touchProject(ctx, scene.projectId);
+  },
+});
+
+async function replaceScenes(
+  ctx: AuthedMutationCtx,
+  projectId: Id<"projects">,
+  sourceText: string,
+  drafts: SceneDraft[],
+) {
+  if (drafts.length > MAX_SCENES_PER_PROJECT) {
+    throw new InvalidInput(
+      `That makes ${drafts.length} scenes, the limit is ` +
+        MAX_SCENES_PER_PROJECT,
+    );
+  }
+  for (const scene of await projectScenes(ctx, projectId)) {
+    await ctx.db.delete(scene._id);
+  }
+  for (const [position, draft] of drafts.entries()) {
+    await ctx.db.insert("scenes", {
+      projectId,
+      userId: ctx.user._id,
+      position,
+      heading: draft.heading,
+      text: draft.text,
+      startMs: draft.startMs,
+      durationMs: draft.durationMs ?? estimateDurationMs(draft.text),
+    });
+  }
+  await ctx.db.patch(projectId, { sourceText, updatedAt: Date.now() });
+  return drafts.length;
+}
+
+// Shares a timed scene's duration between its halves by word count
+function splitDuration(durationMs: number, before: string, after: string) {
+  const words = countWords(before) + countWords(after);
+  const beforeMs = Math.round((durationMs * countWords(before)) / words);
+  return [beforeMs, durationMs - beforeMs];
+}
+
+async function ownScene(ctx: AuthedQueryCtx, sceneId: Id<"scenes">) {
+  const scene = await ctx.db.get(sceneId);
+  if (scene === null || scene.userId !== ctx.user._id) {
+    throw new NotFound("Scene");
+  }
+  return scene;
+}
+
+// Writes positions 0..n-1 in the given order, skipping unchanged scenes
+async function renumber(ctx: AuthedMutationCtx, scenes: Doc<"scenes">[]) {
+  for (const [position, scene] of scenes.entries()) {
+    if (scene.position !== position) {
+      await ctx.db.patch(scene._id, { position });
+    }
+  }
+}
+
+async function touchProject(ctx: AuthedMutationCtx, projectId: Id<"projects">) {
+  await ctx.db.patch(projectId, { updatedAt: Date.now() });
+}
@@ -1,10 +1,317 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { roleValidator } from "./lib/roles";
+import {
+  outgoingEventTypeValidator,
+  webhookDeliveryStatus,
+} from "./lib/outgoingWebhooks";
+import { apiKeyScopeValidator } from "./lib/apiKeys";
+
+export const webhookEventStatus = v.union(
+  v.literal("processing"),
+  v.literal("processed"),
+  v.literal("ignored"),
+  v.literal("rejected"),
+  v.literal("failed"),
+);
+
+export const projectStatus = v.union(
+  v.literal("draft"),
+  v.literal("archived"),
+);
+
+export const auditSource = v.union(
+  v.literal("ui"),
+  v.literal("apiKey"),
+  v.literal("webhook"),
+  v.literal("system"),
+);
+
+export const auditOperation = v.union(
+  v.literal("insert"),
+  v.literal("update"),
+  v.literal("delete"),
+);
+
+export const auditChange = v.object({
+  field: v.string(),
+  before: v.optional(v.any()),
+  after: v.optional(v.any()),
+});
 
 export default defineSchema({
   users: defineTable({
     name: v.string(),
     // this the Clerk ID, stored in the subject JWT field
     externalId: v.string(),
+    // profile fields mirrored from Clerk, optional so rows created before
+    // they were synced stay valid until the next `user.updated` event
+    email: v.optional(v.string()),
+    verifiedEmails: v.optional(v.array(v.string())),
+    imageUrl: v.optional(v.string()),
+    username: v.optional(v.string()),
+    // Clerk timestamps, in milliseconds since epoch
+    clerkCreatedAt: v.optional(v.number()),
+    clerkUpdatedAt: v.optional(v.number()),
+    lastSignInAt: v.optional(v.number()),
+    publicMetadata: v.optional(v.record(v.string(), v.any())),
+    // from `publicMetadata.role`, missing on older rows means "member"
+    role: v.optional(roleValidator),
+    // set when the user is deleted in Clerk, the row is kept as an
+    // anonymized tombstone until it's purged at `purgeAt`
+    deletedAt: v.optional(v.number()),
+    purgeAt: v.optional(v.number()),
+    // set by a reconciliation run that didn't find the user in Clerk
+    orphanedAt: v.optional(v.number()),
+    // suspended users can't use the app until `suspendedUntil`, or until
+    // the suspension is lifted if it has no end
+    suspendedAt: v.optional(v.number()),
+    suspendedUntil: v.optional(v.number()),
+    suspensionReason: v.optional(v.string()),
+    // Clerk's `banned` flag as of the last sync, to tell when it changes
+    clerkBanned: v.optional(v.boolean()),
+    // name, email and username, for the admin console's search
+    searchText: v.optional(v.string()),
+  })
+    .index("byExternalId", ["externalId"])
+    .searchIndex("search", { searchField: "searchText" }),
+
+  organizations: defineTable({
+    name: v.string(),
+    slug: v.string(),
+    // the Clerk organization ID
+    externalId: v.string(),
+    imageUrl: v.optional(v.string()),
+    // Clerk ID of the user who created the organization
+    createdByExternalId: v.optional(v.string()),
+    publicMetadata: v.optional(v.record(v.string(), v.any())),
+    clerkCreatedAt: v.number(),
+    clerkUpdatedAt: v.number(),
+    // set when the organization is deleted in Clerk, the row is kept as a
+    // tombstone so late events don't bring it back
+    deletedAt: v.optional(v.number()),
   }).index("byExternalId", ["externalId"]),
-});
\ No newline at end of file
+
+  memberships: defineTable({
+    organizationId: v.id("organizations"),
+    // the Clerk membership ID
+    externalId: v.string(),
+    // keyed by Clerk user ID rather than Id<"users"> since membership
+    // events can arrive before the matching `user.created`
+    userExternalId: v.string(),
+    // Clerk role key, e.g. "org:admin" or "org:member"
+    role: v.string(),
+    clerkCreatedAt: v.number(),
+    clerkUpdatedAt: v.number(),
+  })
+    .index("byExternalId", ["externalId"])
+    .index("byOrganizationId", ["organizationId"])
+    .index("byUserExternalId", ["userExternalId"]),
+
+  // session and email activity reported by Clerk webhooks, so support can
+  // see where and when a user signed in
+  authEvents: defineTable({
+    // keyed by Clerk user ID as events can arrive before `user.created`,
+    // `userId` is filled in when the user row already exists
+    userExternalId: v.string(),
+    userId: v.optional(v.id("users")),
+    kind: v.union(v.literal("session"), v.literal("email")),
+    // the Clerk webhook event type, e.g. "session.created"
+    type: v.string(),
+    occurredAt: v.number(),
+    sessionId: v.optional(v.string()),
+    device: v.optional(
+      v.object({
+        deviceType: v.optional(v.string()),
+        isMobile: v.optional(v.boolean()),
+        browserName: v.optional(v.string()),
+        browserVersion: v.optional(v.string()),
+        ipAddress: v.optional(v.string()),
+        city: v.optional(v.string()),
+        country: v.optional(v.string()),
+      }),
+    ),
+    // email metadata only, the body may contain one-time codes
+    email: v.optional(
+      v.object({
+        to: v.optional(v.string()),
+        subject: v.optional(v.string()),
+        slug: v.optional(v.string()),
+        status: v.optional(v.string()),
+      }),
+    ),
+  }).index("byUserExternalIdAndKind", [
+    "userExternalId",
+    "kind",
+    "occurredAt",
+  ]),
+
+  // summary of each run diffing the users table against a Clerk export
+  reconciliationRuns: defineTable({
+    source: v.union(v.literal("clerkApi"), v.literal("import")),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed"),
+    ),
+    startedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+    created: v.number(),
+    updated: v.number(),
+    unchanged: v.number(),
+    // tombstoned users, or stored versions newer than the export
+    skipped: v.number(),
+    invalid: v.number(),
+    orphaned: v.number(),
+    // capped samples, the counts above are authoritative
+    orphanedExternalIds: v.array(v.string()),
+    errors: v.array(v.string()),
+  }),
+
+  // one row per webhook delivery, keyed by the provider's message ID
+  // (`svix-id` for Clerk) so retries and replays aren't processed twice
+  webhookEvents: defineTable({
+    source: v.string(),
+    deliveryId: v.string(),
+    eventType: v.string(),
+    status: webhookEventStatus,
+    attempts: v.number(),
+    receivedAt: v.number(),
+    lastAttemptAt: v.number(),
+    processedAt: v.optional(v.number()),
+    detail: v.optional(v.string()),
+  }).index("bySourceAndDeliveryId", ["source", "deliveryId"]),
+
+  // webhook deliveries that passed signature verification but whose payload
+  // didn't match the shape we expect, kept to spot schema drift upstream
+  malformedWebhookEvents: defineTable({
+    source: v.string(),
+    eventType: v.string(),
+    deliveryId: v.optional(v.string()),
+    reason: v.string(),
+    // raw JSON, stored as a string since it may not be a valid Convex value
+    payload: v.string(),
+    receivedAt: v.number(),
+  }).index("bySourceAndEventType", ["source", "eventType"]),
+
+  // endpoints customers registered to receive our events
+  webhookEndpoints: defineTable({
+    userId: v.id("users"),
+    url: v.string(),
+    description: v.optional(v.string()),
+    eventTypes: v.array(outgoingEventTypeValidator),
+    // HMAC key for the `x-webhook-signature` header, shown to the owner once
+    secret: v.string(),
+    enabled: v.boolean(),
+    disabledReason: v.optional(v.string()),
+    // deliveries in a row that used up all their attempts, reset on success
+    consecutiveFailures: v.number(),
+  }).index("byUserId", ["userId"]),
+
+  // one row per event sent to an endpoint, updated after every attempt
+  webhookDeliveries: defineTable({
+    endpointId: v.id("webhookEndpoints"),
+    userId: v.id("users"),
+    // shared by redeliveries, so receivers can deduplicate on it
+    eventId: v.string(),
+    eventType: v.string(),
+    payload: v.string(),
+    status: webhookDeliveryStatus,
+    attempts: v.number(),
+    lastAttemptAt: v.optional(v.number()),
+    nextAttemptAt: v.optional(v.number()),
+    responseStatus: v.optional(v.number()),
+    // the start of the response body, or why the request failed
+    responseBody: v.optional(v.string()),
+    error: v.optional(v.string()),
+    redeliveryOf: v.optional(v.id("webhookDeliveries")),
+  })
+    .index("byEndpointId", ["endpointId"])
+    .index("byUserId", ["userId"]),
+
+  // personal API keys for `/api/v1`, only a hash of the key is stored
+  apiKeys: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    // the start of the key, shown in the dashboard to tell keys apart
+    prefix: v.string(),
+    hashedKey: v.string(),
+    scopes: v.array(apiKeyScopeValidator),
+    expiresAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+    lastUsedAt: v.optional(v.number()),
+  })
+    .index("byHashedKey", ["hashedKey"])
+    .index("byUserId", ["userId"]),
+
+  // state of each rate limit (see `RATE_LIMITS`) per key, e.g. a user ID
+  rateLimits: defineTable({
+    name: v.string(),
+    key: v.string(),
+    // tokens left in a token bucket, or calls made in a fixed window
+    value: v.number(),
+    // when the bucket was last refilled, or when the window started
+    ts: v.number(),
+  }).index("byNameAndKey", ["name", "key"]),
+
+  // every write made through an audited mutation, see `withAuditLog`
+  auditLog: defineTable({
+    source: auditSource,
+    actorId: v.optional(v.id("users")),
+    // the actor's name at the time, or the system that made the change
+    actorLabel: v.string(),
+    apiKeyId: v.optional(v.id("apiKeys")),
+    action: v.string(),
+    operation: auditOperation,
+    targetTable: v.string(),
+    targetId: v.string(),
+    // the user the target belongs to, so the entry is anonymized with them
+    ownerId: v.optional(v.id("users")),
+    // the fields that changed, with secrets redacted
+    changes: v.array(auditChange),
+  })
+    .index("byTarget", ["targetTable", "targetId"])
+    .index("byActorId", ["actorId"])
+    .index("byOwnerId", ["ownerId"])
+    .index("bySource", ["source"]),
+
+  // an admin viewing the app as another user, see `getViewer`
+  impersonations: defineTable({
+    adminId: v.id("users"),
+    targetUserId: v.id("users"),
+    reason: v.optional(v.string()),
+    expiresAt: v.number(),
+    // set when the admin stops or the session expires
+    endedAt: v.optional(v.number()),
+  })
+    .index("byAdminId", ["adminId"])
+    .index("byTargetUserId", ["targetUserId"]),
+
+  // a script to turn into a video, owned by one user
+  projects: defineTable({
+    userId: v.id("users"),
+    title: v.string(),
+    sourceText: v.string(),
+    status: projectStatus,
+    // bumped by every change, lists are sorted by it
+    updatedAt: v.number(),
+    archivedAt: v.optional(v.number()),
+  }).index("byUserIdAndStatus", ["userId", "status", "updatedAt"]),
+
+  // the narration of a project, split into ordered scenes
+  scenes: defineTable({
+    projectId: v.id("projects"),
+    userId: v.id("users"),
+    // 0-based, contiguous within a project
+    position: v.number(),
+    heading: v.optional(v.string()),
+    text: v.string(),
+    // where the scene starts in the video its captions were imported from
+    startMs: v.optional(v.number()),
+    // estimated from the word count, see `estimateDurationMs`, or the
+    // timing of imported captions
+    durationMs: v.number(),
+  })
+    .index("byProjectIdAndPosition", ["projectId", "position"])
+    .index("byUserId", ["userId"]),
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { clerkUser, setupUsers } from "./test.fixtures";
+import { BANNED_IN_CLERK } from "./lib/suspension";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubEnv("CLERK_SECRET_KEY", "sk_test_clerk");
+  fetchMock = vi.fn(async () => Response.json({}));
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("suspensions", () => {
+  test("lock the user out and ban them in Clerk", async () => {
+    const { t, asUser, asAdmin, userId } = await setupUsers();
+
+    await asAdmin.mutation(api.suspensions.suspend, {
+      userId,
+      reason: "Spam",
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    await expect(asUser.query(api.apiKeys.list, {})).rejects.toThrow(
+      /suspended/,
+    );
+    expect(await asUser.query(api.suspensions.current, {})).toEqual({
+      reason: "Spam",
+      until: null,
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.clerk.com/v1/users/user_test123/ban",
+      expect.objectContaining({ method: "POST" }),
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.clerk.com/v1/users/user_test123/metadata",
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({ public_metadata: { suspended: true } }),
+      }),
+    );
+  });
+
+  test("end when they expire", async () => {
+    const { t, asUser, asAdmin, userId } = await setupUsers();
+    await asAdmin.mutation(api.suspensions.suspend, {
+      userId,
+      reason: "Cooling off",
+      days: 1,
+    });
+
+    vi.advanceTimersByTime(DAY);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await asUser.query(api.suspensions.current, {})).toBeNull();
+    expect(await asUser.query(api.apiKeys.list, {})).toEqual([]);
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      "https://api.clerk.com/v1/users/user_test123/unban",
+      expect.objectContaining({ method: "POST" }),
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.clerk.com/v1/users/user_test123/metadata",
+      expect.objectContaining({
+        body: JSON.stringify({ public_metadata: { suspended: null } }),
+      }),
+    );
+  });
+
+  test("block the user's API keys", async () => {
+    const { t, asUser, asAdmin, userId } = await setupUsers();
+    const { key } = await asUser.mutation(api.apiKeys.create, {
+      name: "CI",
+      scopes: ["profile:read"],
+    });
+    await asAdmin.mutation(api.suspensions.suspend, {
+      userId,
+      reason: "Spam",
+    });
+
+    const response = await t.fetch("/api/v1/me", {
+      headers: { Authorization: `Bearer ${key}` },
+    });
+    expect(response.status).toBe(403);
+  });
+
+  test("follow bans and unbans made in Clerk", async () => {
+    const { t, asUser } = await setupUsers();
+
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ banned: true, updated_at: 1735776000000 }),
+    });
+    expect(await asUser.query(api.suspensions.current, {})).toEqual({
+      reason: BANNED_IN_CLERK,
+      until: null,
+    });
+
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ banned: false, updated_at: 1735862400000 }),
+    });
+    expect(await asUser.query(api.suspensions.current, {})).toBeNull();
+  });
+
+  test("survive profile updates before the ban reaches Clerk", async () => {
+    const { t, asUser, asAdmin, userId } = await setupUsers();
+    await asAdmin.mutation(api.suspensions.suspend, {
+      userId,
+      reason: "Spam",
+    });
+
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ first_name: "Augusta", updated_at: 1735776000000 }),
+    });
+
+    expect(await asUser.query(api.suspensions.current, {})).not.toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { internalAction, internalQuery, query } from "./_generated/server";
+import { clerkApiError, clerkFetch, hasClerkSecretKey } from "./lib/clerkApi";
+import { adminMutation, auditedInternalMutation } from "./lib/functions";
+import { InvalidInput, NotFound } from "./lib/errors";
+import { DEFAULT_ROLE, hasRole } from "./lib/roles";
+import { isUserSuspended, LIFTED_SUSPENSION } from "./lib/suspension";
+import { getActiveUser } from "./users";
+
+const MAX_SUSPENSION_DAYS = 365;
+
+/**
+ * The signed-in user's suspension, or null. Reads the user behind the
+ * session rather than an impersonated one, for `proxy.ts` and the
+ * suspended page.
+ */
+export const current = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (identity === null) {
+      return null;
+    }
+    const user = await getActiveUser(ctx, identity.subject);
+    if (user === null || !isUserSuspended(user)) {
+      return null;
+    }
+    return {
+      reason: user.suspensionReason ?? null,
+      until: user.suspendedUntil ?? null,
+    };
+  },
+});
+
+/**
+ * Locks the user out of the app and the API, for `days` or until lifted,
+ * and bans them in Clerk so their sessions end.
+ */
+export const suspend = adminMutation({
+  args: {
+    userId: v.id("users"),
+    reason: v.string(),
+    days: v.optional(v.number()),
+  },
+  action: "suspensions.suspend",
+  handler: async (ctx, { userId, reason, days }) => {
+    const user = await ctx.db.get(userId);
+    if (user === null || user.deletedAt !== undefined) {
+      throw new NotFound("User");
+    }
+    if (user._id === ctx.user._id) {
+      throw new InvalidInput("You can't suspend yourself");
+    }
+    const userRole = user.role ?? DEFAULT_ROLE;
+    if (userRole !== ctx.role && hasRole(userRole, ctx.role)) {
+      throw new InvalidInput(
+        `You can't suspend a user with the ${userRole} role`,
+      );
+    }
+    const trimmedReason = reason.trim();
+    if (trimmedReason === "") {
+      throw new InvalidInput("Give a reason for the suspension");
+    }
+    if (
+      days !== undefined &&
+      (!Number.isInteger(days) || days < 1 || days > MAX_SUSPENSION_DAYS)
+    ) {
+      throw new InvalidInput(
+        `Suspensions last between 1 and ${MAX_SUSPENSION_DAYS} days`,
+      );
+    }
+
+    const now = Date.now();
+    const suspendedUntil =
+      days === undefined ? undefined : now + days * 24 * 60 * 60 * 1000;
+    await ctx.db.patch(userId, {
+      suspendedAt: now,
+      suspendedUntil,
+      suspensionReason: trimmedReason,
+    });
+    if (suspendedUntil !== undefined) {
+      await ctx.scheduler.runAt(suspendedUntil, internal.suspensions.expire, {
+        userId,
+        suspendedAt: now,
+      });
+    }
+    await ctx.scheduler.runAfter(0, internal.suspensions.syncToClerk, {
+      userId,
+    });
+  },
+});
+
+/**
+ * Lifts the user's suspension early, and their ban in Clerk.
+ */
+export const lift = adminMutation({
+  args: { userId: v.id("users") },
+  action: "suspensions.lift",
+  handler: async (ctx, { userId }) => {
+    const user = await ctx.db.get(userId);
+    if (user === null || user.deletedAt !== undefined) {
+      throw new NotFound("User");
+    }
+    if (user.suspendedAt === undefined) {
+      return;
+    }
+    await ctx.db.patch(userId, LIFTED_SUSPENSION);
+    await ctx.scheduler.runAfter(0, internal.suspensions.syncToClerk, {
+      userId,
+    });
+  },
+});
+
+export const expire = auditedInternalMutation({
+  args: { userId: v.id("users"), suspendedAt: v.number() },
+  actor: {
+    source: "system",
+    actorLabel: "Suspension timeout",
+    action: "suspensions.expire",
+  },
+  async handler(ctx, { userId, suspendedAt }) {
+    const user = await ctx.db.get(userId);
+    // lifted or replaced by another suspension in the meantime
+    if (user === null || user.suspendedAt !== suspendedAt) {
+      return;
+    }
+    await ctx.db.patch(userId, LIFTED_SUSPENSION);
+    await ctx.scheduler.runAfter(0, internal.suspensions.syncToClerk, {
+      userId,
+    });
+  },
+});
+
+export const loadForSync = internalQuery({
+  args: { userId: v.id("users") },
+  async handler(ctx, { userId }) {
+    const user = await ctx.db.get(userId);
+    if (user === null || user.deletedAt !== undefined) {
+      return null;
+    }
+    return { externalId: user.externalId, suspended: isUserSuspended(user) };
+  },
+});
+
+/**
+ * Bans or unbans the user in Clerk to match their suspension, and sets the
+ * `suspended` flag in their public metadata that `proxy.ts` reads from the
+ * session token. Clerk's resulting `user.updated` events only record the new
+ * `banned` flag.
+ */
+export const syncToClerk = internalAction({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    if (!hasClerkSecretKey()) {
+      console.warn("CLERK_SECRET_KEY is not set, not syncing the Clerk ban");
+      return;
+    }
+    const user = await ctx.runQuery(internal.suspensions.loadForSync, {
+      userId,
+    });
+    if (user === null) {
+      return;
+    }
+    const path = `/users/${encodeURIComponent(user.externalId)}`;
+    // Clerk merges metadata updates, and a null value removes the key
+    const metadataResponse = await clerkFetch(`${path}/metadata`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        public_metadata: { suspended: user.suspended ? true : null },
+      }),
+    });
+    if (!metadataResponse.ok) {
+      throw await clerkApiError(metadataResponse);
+    }
+    const response = await clerkFetch(
+      `${path}/${user.suspended ? "ban" : "unban"}`,
+      { method: "POST" },
+    );
+    if (!response.ok) {
+      throw await clerkApiError(response);
+    }
+  },
+});
@@ -0,0 +1,120 @@
+import { convexTest } from "convex-test";
+import { api, internal } from "./_generated/api";
+import { clerkUserValidator } from "./clerk";
+import { parseWithValidator } from "./lib/validate";
+import schema from "./schema";
+import { modules } from "./test.setup";
+
+// Clerk webhook payloads for tests, shaped like the JSON Clerk sends.
+
+export function clerkUserJson(overrides: Record<string, unknown> = {}) {
+  return {
+    object: "user",
+    id: "user_test123",
+    username: "ada",
+    first_name: "Ada",
+    last_name: "Lovelace",
+    image_url: "https://img.clerk.com/ada.png",
+    has_image: true,
+    primary_email_address_id: "idn_primary",
+    email_addresses: [
+      {
+        object: "email_address",
+        id: "idn_primary",
+        email_address: "ada@example.com",
+        verification: { status: "verified", strategy: "email_code" },
+        linked_to: [],
+      },
+      {
+        object: "email_address",
+        id: "idn_other",
+        email_address: "ada@work.example.com",
+        verification: { status: "unverified", strategy: "email_code" },
+        linked_to: [],
+      },
+    ],
+    public_metadata: {},
+    private_metadata: {},
+    banned: false,
+    created_at: 1735689600000,
+    updated_at: 1735689600000,
+    last_sign_in_at: null,
+    ...overrides,
+  };
+}
+
+export function clerkOrganizationJson(overrides: Record<string, unknown> = {}) {
+  return {
+    object: "organization",
+    id: "org_test123",
+    name: "Analytical Engines",
+    slug: "analytical-engines",
+    image_url: null,
+    public_metadata: {},
+    created_by: "user_test123",
+    created_at: 1735689600000,
+    updated_at: 1735689600000,
+    ...overrides,
+  };
+}
+
+export function clerkMembershipJson(overrides: Record<string, unknown> = {}) {
+  return {
+    object: "organization_membership",
+    id: "orgmem_test123",
+    role: "org:admin",
+    organization: clerkOrganizationJson(),
+    public_user_data: {
+      user_id: "user_test123",
+      identifier: "ada@example.com",
+    },
+    created_at: 1735689600000,
+    updated_at: 1735689600000,
+    ...overrides,
+  };
+}
+
+/**
+ * A Clerk user parsed the way the webhook route parses it, ready for
+ * `internal.users.upsertFromClerk`.
+ */
+export function clerkUser(overrides: Record<string, unknown> = {}) {
+  const parsed = parseWithValidator(
+    clerkUserValidator,
+    clerkUserJson(overrides),
+  );
+  if (!parsed.ok) throw new Error(parsed.reason);
+  return parsed.value;
+}
+
+/**
+ * A test deployment with two users: Ada (`user_test123`), a member, and
+ * Grace (`user_admin`), an admin.
+ */
+export async function setupUsers() {
+  const t = convexTest(schema, modules);
+  await t.mutation(internal.users.upsertFromClerk, { data: clerkUser() });
+  await t.mutation(internal.users.upsertFromClerk, {
+    data: clerkUser({
+      id: "user_admin",
+      username: "grace",
+      first_name: "Grace",
+      last_name: "Hopper",
+      email_addresses: [
+        {
+          object: "email_address",
+          id: "idn_primary",
+          email_address: "grace@example.com",
+          verification: { status: "verified", strategy: "email_code" },
+          linked_to: [],
+        },
+      ],
+      public_metadata: { role: "admin" },
+    }),
+  });
+  const asUser = t.withIdentity({ subject: "user_test123" });
+  const asAdmin = t.withIdentity({ subject: "user_admin" });
+  const ada = await asUser.query(api.users.current, {});
+  const grace = await asAdmin.query(api.users.current, {});
+  return { t, asUser, asAdmin, userId: ada!._id, adminId: grace!._id };
+}
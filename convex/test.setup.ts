@@ -0,0 +1,4 @@
+/// <reference types="vite/client" />
+
+// Every module under convex/, for `convexTest(schema, modules)`
+export const modules = import.meta.glob("./**/*.*s");
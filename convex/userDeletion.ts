@@ -0,0 +1,251 @@
+import { internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, TableNames } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * What happens to a document owned by a user when that user is deleted.
+ *
+ * - `delete`: removed as soon as the user is soft-deleted
+ * - `anonymize`: personal fields stripped on soft delete, removed on purge
+ * - `retain`: left untouched until the user is purged
+ */
+type CascadePolicy = "delete" | "anonymize" | "retain";
+
+type OwnedTable<TableName extends TableNames> = {
+  policy: CascadePolicy;
+  ownedBy: (ctx: QueryCtx, user: Doc<"users">) => Promise<Doc<TableName>[]>;
+  anonymize?: (
+    doc: Doc<TableName>,
+    user: Doc<"users">,
+  ) => Partial<Doc<TableName>>;
+};
+
+// Every table holding documents that belong to a user must be listed here,
+// otherwise they outlive the user row they reference.
+const ownedTables: { [TableName in TableNames]?: OwnedTable<TableName> } = {
+  authEvents: {
+    policy: "anonymize",
+    ownedBy: (ctx, user) =>
+      ctx.db
+        .query("authEvents")
+        .withIndex("byUserExternalIdAndKind", (q) =>
+          q.eq("userExternalId", user.externalId),
+        )
+        .collect(),
+    anonymize: (event) => ({
+      device: event.device && {
+        deviceType: event.device.deviceType,
+        isMobile: event.device.isMobile,
+        browserName: event.device.browserName,
+        browserVersion: event.device.browserVersion,
+      },
+      email: event.email && { slug: event.email.slug },
+    }),
+  },
+  memberships: {
+    policy: "delete",
+    ownedBy: (ctx, user) =>
+      ctx.db
+        .query("memberships")
+        .withIndex("byUserExternalId", (q) =>
+          q.eq("userExternalId", user.externalId),
+        )
+        .collect(),
+  },
+  webhookEndpoints: {
+    policy: "delete",
+    ownedBy: (ctx, user) =>
+      ctx.db
+        .query("webhookEndpoints")
+        .withIndex("byUserId", (q) => q.eq("userId", user._id))
+        .collect(),
+  },
+  webhookDeliveries: {
+    policy: "delete",
+    ownedBy: (ctx, user) =>
+      ctx.db
+        .query("webhookDeliveries")
+        .withIndex("byUserId", (q) => q.eq("userId", user._id))
+        .collect(),
+  },
+  apiKeys: {
+    policy: "delete",
+    ownedBy: (ctx, user) =>
+      ctx.db
+        .query("apiKeys")
+        .withIndex("byUserId", (q) => q.eq("userId", user._id))
+        .collect(),
+  },
+  projects: {
+    policy: "delete",
+    ownedBy: (ctx, user) =>
+      ctx.db
+        .query("projects")
+        .withIndex("byUserIdAndStatus", (q) => q.eq("userId", user._id))
+        .collect(),
+  },
+  scenes: {
+    policy: "delete",
+    ownedBy: (ctx, user) =>
+      ctx.db
+        .query("scenes")
+        .withIndex("byUserId", (q) => q.eq("userId", user._id))
+        .collect(),
+  },
+  // kept as a record of who viewed the app as whom until the user is purged
+  impersonations: {
+    policy: "retain",
+    ownedBy: async (ctx, user) => [
+      ...(await ctx.db
+        .query("impersonations")
+        .withIndex("byAdminId", (q) => q.eq("adminId", user._id))
+        .collect()),
+      ...(await ctx.db
+        .query("impersonations")
+        .withIndex("byTargetUserId", (q) => q.eq("targetUserId", user._id))
+        .collect()),
+    ],
+  },
+  // last, so the entries recorded by the deletion itself are anonymized too
+  auditLog: {
+    policy: "anonymize",
+    ownedBy: async (ctx, user) => {
+      const byUser = await ctx.db
+        .query("auditLog")
+        .withIndex("byActorId", (q) => q.eq("actorId", user._id))
+        .collect();
+      // changes to the user and their documents, e.g. projects and API keys
+      const aboutUserData = await ctx.db
+        .query("auditLog")
+        .withIndex("byOwnerId", (q) => q.eq("ownerId", user._id))
+        .collect();
+      // entries recorded before `ownerId` existed
+      const aboutUser = await ctx.db
+        .query("auditLog")
+        .withIndex("byTarget", (q) =>
+          q.eq("targetTable", "users").eq("targetId", user._id),
+        )
+        .collect();
+      // changes a user made to their own data are in more than one
+      const entries = new Map(
+        [...byUser, ...aboutUserData, ...aboutUser].map((entry) => [
+          entry._id,
+          entry,
+        ]),
+      );
+      return [...entries.values()];
+    },
+    anonymize: (entry, user) => ({
+      actorLabel:
+        entry.actorId === user._id ? "Deleted user" : entry.actorLabel,
+      // the before and after values hold the user's personal data
+      changes:
+        entry.ownerId === user._id ||
+        (entry.targetTable === "users" && entry.targetId === user._id)
+          ? []
+          : entry.changes,
+    }),
+  },
+};
+
+/**
+ * Marks the user as deleted, strips their personal data, applies the cascade
+ * policies and schedules the hard purge. The tombstone keeps `externalId` so
+ * late webhook deliveries for the user can't bring them back.
+ */
+export async function softDeleteUser(ctx: MutationCtx, user: Doc<"users">) {
+  const now = Date.now();
+  const purgeAt = now + retentionMs();
+
+  await ctx.db.patch(user._id, {
+    name: "Deleted user",
+    email: undefined,
+    verifiedEmails: undefined,
+    imageUrl: undefined,
+    username: undefined,
+    lastSignInAt: undefined,
+    publicMetadata: undefined,
+    searchText: undefined,
+    deletedAt: now,
+    purgeAt,
+  });
+
+  for (const [tableName, table] of ownedTableEntries()) {
+    if (table.policy === "retain") continue;
+    const docs = await table.ownedBy(ctx, user);
+    for (const doc of docs) {
+      if (table.policy === "delete") {
+        await ctx.db.delete(doc._id);
+      } else if (table.anonymize) {
+        await ctx.db.patch(doc._id, table.anonymize(doc, user));
+      } else {
+        console.warn(`No anonymize function for ${tableName}, leaving as is`);
+      }
+    }
+  }
+
+  await ctx.scheduler.runAt(purgeAt, internal.userDeletion.purge, {
+    userId: user._id,
+  });
+}
+
+export const purge = internalMutation({
+  args: { userId: v.id("users") },
+  async handler(ctx, { userId }) {
+    const user = await ctx.db.get(userId);
+    if (user === null) {
+      return;
+    }
+    if (user.deletedAt === undefined) {
+      console.warn(`Not purging user ${userId}, they are no longer deleted`);
+      return;
+    }
+
+    for (const [, table] of ownedTableEntries()) {
+      const docs = await table.ownedBy(ctx, user);
+      for (const doc of docs) {
+        await ctx.db.delete(doc._id);
+      }
+    }
+    await ctx.db.delete(user._id);
+  },
+});
+
+/**
+ * How many documents the user owns in each table, and what happens to them
+ * when the user is deleted.
+ */
+export async function ownedDataSummary(ctx: QueryCtx, user: Doc<"users">) {
+  const summary = [];
+  for (const [tableName, table] of ownedTableEntries()) {
+    const docs = await table.ownedBy(ctx, user);
+    summary.push({
+      table: tableName,
+      policy: table.policy,
+      count: docs.length,
+    });
+  }
+  return summary;
+}
+
+function retentionMs() {
+  const days = Number(
+    process.env.USER_DELETION_RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS,
+  );
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(
+      `Invalid USER_DELETION_RETENTION_DAYS: ${process.env.USER_DELETION_RETENTION_DAYS}`,
+    );
+  }
+  return days * 24 * 60 * 60 * 1000;
+}
+
+function ownedTableEntries() {
+  return Object.entries(ownedTables) as [
+    TableNames,
+    OwnedTable<TableNames>,
+  ][];
+}
@@ -0,0 +1,180 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import schema from "./schema";
+import { clerkUser } from "./test.fixtures";
+import { modules } from "./test.setup";
+
+async function getUsers(t: ReturnType<typeof convexTest>) {
+  return await t.run(async (ctx) => await ctx.db.query("users").collect());
+}
+
+beforeEach(() => {
+  // keeps scheduled purges within the range of timers convex-test can set
+  vi.stubEnv("USER_DELETION_RETENTION_DAYS", "1");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("upsertFromClerk", () => {
+  test("creates a user with the Clerk profile", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.upsertFromClerk, { data: clerkUser() });
+
+    const [user] = await getUsers(t);
+    expect(user).toMatchObject({
+      name: "Ada Lovelace",
+      externalId: "user_test123",
+      email: "ada@example.com",
+      verifiedEmails: ["ada@example.com"],
+      imageUrl: "https://img.clerk.com/ada.png",
+      username: "ada",
+      role: "member",
+    });
+  });
+
+  test("falls back to the username or email for users without names", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ first_name: null, last_name: null }),
+    });
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({
+        id: "user_noname",
+        first_name: null,
+        last_name: null,
+        username: null,
+      }),
+    });
+
+    const names = (await getUsers(t)).map((user) => user.name);
+    expect(names).toEqual(["ada", "ada"]);
+    expect(names).not.toContain("null null");
+  });
+
+  test("updates an existing user", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.upsertFromClerk, { data: clerkUser() });
+    const result = await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ first_name: "Augusta", updated_at: 1735776000000 }),
+    });
+
+    expect(result).toBe("applied");
+    const users = await getUsers(t);
+    expect(users).toHaveLength(1);
+    expect(users[0].name).toBe("Augusta Lovelace");
+  });
+
+  test("ignores updates older than the stored user", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ updated_at: 1735776000000 }),
+    });
+    const result = await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ first_name: "Stale", updated_at: 1735689600000 }),
+    });
+
+    expect(result).toBe("stale");
+    expect((await getUsers(t))[0].name).toBe("Ada Lovelace");
+  });
+
+  test("reads the role from public metadata", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ public_metadata: { role: "admin" } }),
+    });
+
+    expect((await getUsers(t))[0].role).toBe("admin");
+  });
+});
+
+describe("deleteFromClerk", () => {
+  test("anonymizes the user and purges them after the retention window", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.upsertFromClerk, { data: clerkUser() });
+    await t.mutation(internal.users.deleteFromClerk, {
+      clerkUserId: "user_test123",
+    });
+
+    const [tombstone] = await getUsers(t);
+    expect(tombstone).toMatchObject({
+      name: "Deleted user",
+      externalId: "user_test123",
+    });
+    expect(tombstone.email).toBeUndefined();
+    expect(tombstone.deletedAt).toBeDefined();
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await getUsers(t)).toHaveLength(0);
+  });
+
+  test("leaves a tombstone for unknown users", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.deleteFromClerk, {
+      clerkUserId: "user_unknown",
+    });
+    const result = await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ id: "user_unknown" }),
+    });
+
+    expect(result).toBe("deleted");
+    const users = await getUsers(t);
+    expect(users).toHaveLength(1);
+    expect(users[0].deletedAt).toBeDefined();
+  });
+});
+
+describe("current", () => {
+  test("returns null when signed out", async () => {
+    const t = convexTest(schema, modules);
+    expect(await t.query(api.users.current)).toBeNull();
+  });
+
+  test("resolves the user from the identity subject", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.upsertFromClerk, { data: clerkUser() });
+
+    const asAda = t.withIdentity({ subject: "user_test123" });
+    expect(await asAda.query(api.users.current)).toMatchObject({
+      name: "Ada Lovelace",
+    });
+    const asStranger = t.withIdentity({ subject: "user_other" });
+    expect(await asStranger.query(api.users.current)).toBeNull();
+  });
+
+  test("returns null for deleted users", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(internal.users.upsertFromClerk, { data: clerkUser() });
+    await t.mutation(internal.users.deleteFromClerk, {
+      clerkUserId: "user_test123",
+    });
+
+    const asAda = t.withIdentity({ subject: "user_test123" });
+    expect(await asAda.query(api.users.current)).toBeNull();
+  });
+});
+
+describe("ensureCurrent", () => {
+  test("creates the user from identity claims when missing", async () => {
+    const t = convexTest(schema, modules);
+    const asGrace = t.withIdentity({
+      subject: "user_grace",
+      name: "Grace Hopper",
+      email: "grace@example.com",
+      emailVerified: true,
+    });
+    const userId = await asGrace.mutation(api.users.ensureCurrent);
+
+    expect(userId).not.toBeNull();
+    expect(await asGrace.query(api.users.current)).toMatchObject({
+      name: "Grace Hopper",
+      email: "grace@example.com",
+      verifiedEmails: ["grace@example.com"],
+    });
+    expect(await asGrace.mutation(api.users.ensureCurrent)).toBe(userId);
+  });
+});
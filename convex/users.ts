@@ -1,6 +1,12 @@
-import { internalMutation, query, QueryCtx } from "./_generated/server";
-import { UserJSON } from "@clerk/backend";
-import { v, Validator } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { ClerkUser, clerkUserValidator } from "./clerk";
+import { softDeleteUser } from "./userDeletion";
+import { DEFAULT_ROLE, roleFromMetadata } from "./lib/roles";
+import { emitWebhookEvent } from "./lib/outgoingWebhooks";
+import { auditedInternalMutation } from "./lib/functions";
+import { activeImpersonation } from "./lib/impersonation";
+import { suspensionFromClerk } from "./lib/suspension";
 
 export const current = query({
   args: {},
@@ -9,34 +15,111 @@ export const current = query({
   },
 });
 
-export const upsertFromClerk = internalMutation({
-  args: { data: v.any() as Validator<UserJSON> }, // no runtime validation, trust Clerk
+/**
+ * Creates the current user's row from their JWT claims if the Clerk webhook
+ * hasn't done so yet. The webhook's `upsertFromClerk` later overwrites these
+ * fields with the full profile.
+ */
+export const ensureCurrent = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (identity === null) {
+      throw new Error("Can't ensure current user, not authenticated");
+    }
+    const user = await userByExternalId(ctx, identity.subject);
+    if (user !== null) {
+      return user.deletedAt === undefined ? user._id : null;
+    }
+
+    const email = identity.email;
+    const name = displayName({
+      fullName: identity.name,
+      firstName: identity.givenName,
+      lastName: identity.familyName,
+      username: identity.nickname,
+      email,
+    });
+    return await ctx.db.insert("users", {
+      name,
+      externalId: identity.subject,
+      email,
+      verifiedEmails: email && identity.emailVerified ? [email] : [],
+      imageUrl: identity.pictureUrl,
+      username: identity.nickname,
+      // the webhook fills in the real role from Clerk public metadata
+      role: DEFAULT_ROLE,
+      searchText: searchText({ name, email, username: identity.nickname }),
+    });
+  },
+});
+
+export const upsertFromClerk = auditedInternalMutation({
+  args: { data: clerkUserValidator },
+  actor: {
+    source: "webhook",
+    actorLabel: "Clerk",
+    action: "users.upsertFromClerk",
+  },
   async handler(ctx, { data }) {
-    const userAttributes = {
-      name: `${data.first_name} ${data.last_name}`,
-      externalId: data.id,
-    };
+    const userAttributes = userAttributesFromClerk(data);
 
     const user = await userByExternalId(ctx, data.id);
     if (user === null) {
-      await ctx.db.insert("users", userAttributes);
+      await ctx.db.insert("users", {
+        ...userAttributes,
+        ...suspensionFromClerk(null, data),
+      });
+    } else if (user.deletedAt !== undefined) {
+      // Clerk never reuses user IDs, so this is a late delivery
+      return "deleted" as const;
+    } else if (
+      user.clerkUpdatedAt !== undefined &&
+      data.updated_at < user.clerkUpdatedAt
+    ) {
+      // delivered out of order, we already have a newer version
+      return "stale" as const;
     } else {
-      await ctx.db.patch(user._id, userAttributes);
+      await ctx.db.patch(user._id, {
+        ...userAttributes,
+        ...suspensionFromClerk(user, data),
+        orphanedAt: undefined,
+      });
+      await emitWebhookEvent(ctx, user._id, "user.updated", {
+        id: userAttributes.externalId,
+        name: userAttributes.name,
+        email: userAttributes.email ?? null,
+        username: userAttributes.username ?? null,
+        imageUrl: userAttributes.imageUrl ?? null,
+      });
     }
+    return "applied" as const;
   },
 });
 
-export const deleteFromClerk = internalMutation({
+export const deleteFromClerk = auditedInternalMutation({
   args: { clerkUserId: v.string() },
+  actor: {
+    source: "webhook",
+    actorLabel: "Clerk",
+    action: "users.deleteFromClerk",
+  },
   async handler(ctx, { clerkUserId }) {
     const user = await userByExternalId(ctx, clerkUserId);
 
-    if (user !== null) {
-      await ctx.db.delete(user._id);
-    } else {
+    if (user === null) {
+      // leave a tombstone anyway, so a `user.created` delivered after the
+      // deletion doesn't resurrect the user
       console.warn(
-        `Can't delete user, there is none for Clerk user ID: ${clerkUserId}`,
+        `Deleting unknown user, there is none for Clerk user ID: ${clerkUserId}`,
       );
+      const userId = await ctx.db.insert("users", {
+        name: "Deleted user",
+        externalId: clerkUserId,
+      });
+      await softDeleteUser(ctx, (await ctx.db.get(userId))!);
+    } else if (user.deletedAt === undefined) {
+      await softDeleteUser(ctx, user);
     }
   },
 });
@@ -47,15 +130,116 @@ export async function getCurrentUserOrThrow(ctx: QueryCtx) {
   return userRecord;
 }
 
+/**
+ * The user queries and mutations act as: the signed-in user, or the user an
+ * admin is impersonating.
+ */
 export async function getCurrentUser(ctx: QueryCtx) {
+  return (await getViewer(ctx))?.user ?? null;
+}
+
+/**
+ * The user to act as and, while impersonating, the signed-in admin behind
+ * them.
+ */
+export async function getViewer(ctx: QueryCtx) {
   const identity = await ctx.auth.getUserIdentity();
   if (identity === null) {
     return null;
   }
-  return await userByExternalId(ctx, identity.subject);
+  const user = await getActiveUser(ctx, identity.subject);
+  if (user === null) {
+    return null;
+  }
+  const impersonation = await activeImpersonation(ctx, user);
+  if (impersonation === null) {
+    return { user, impersonator: null, impersonation: null };
+  }
+  return {
+    user: impersonation.target,
+    impersonator: user,
+    impersonation: impersonation.session,
+  };
+}
+
+/**
+ * The user with this Clerk ID, unless they don't exist or were deleted.
+ */
+export async function getActiveUser(ctx: QueryCtx, externalId: string) {
+  const user = await userByExternalId(ctx, externalId);
+  if (user === null || user.deletedAt !== undefined) {
+    return null;
+  }
+  return user;
+}
+
+export function userAttributesFromClerk(data: ClerkUser) {
+  const primaryEmail = data.email_addresses.find(
+    (email) => email.id === data.primary_email_address_id,
+  );
+  const verifiedEmails = data.email_addresses
+    .filter((email) => email.verification?.status === "verified")
+    .map((email) => email.email_address);
+
+  const name = displayName({
+    firstName: data.first_name,
+    lastName: data.last_name,
+    username: data.username,
+    email: primaryEmail?.email_address,
+  });
+
+  return {
+    name,
+    externalId: data.id,
+    email: primaryEmail?.email_address,
+    verifiedEmails,
+    imageUrl: data.image_url || undefined,
+    username: data.username ?? undefined,
+    clerkCreatedAt: data.created_at,
+    clerkUpdatedAt: data.updated_at,
+    lastSignInAt: data.last_sign_in_at ?? undefined,
+    publicMetadata: data.public_metadata,
+    role: roleFromMetadata(data.public_metadata),
+    searchText: searchText({
+      name,
+      email: primaryEmail?.email_address,
+      username: data.username,
+    }),
+  };
+}
+
+function searchText(parts: {
+  name: string;
+  email?: string;
+  username?: string | null;
+}) {
+  return [parts.name, parts.email, parts.username]
+    .filter((part) => part)
+    .join(" ");
+}
+
+// Clerk allows users without a first or last name, so fall back to the
+// username, then the local part of the primary email, before giving up
+function displayName(parts: {
+  fullName?: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  username?: string | null;
+  email?: string;
+}) {
+  const fullName =
+    parts.fullName?.trim() ||
+    [parts.firstName, parts.lastName]
+      .filter((part) => part && part.trim() !== "")
+      .join(" ")
+      .trim();
+  if (fullName) return fullName;
+  if (parts.username) return parts.username;
+  if (parts.email) return parts.email.split("@")[0];
+  return "Anonymous";
 }
 
-async function userByExternalId(ctx: QueryCtx, externalId: string) {
+export async function userByExternalId(ctx: QueryCtx, externalId: string) {
   return await ctx.db
     .query("users")
     .withIndex("byExternalId", (q) => q.eq("externalId", externalId))
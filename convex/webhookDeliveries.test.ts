@@ -0,0 +1,193 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { clerkUser, setupUsers } from "./test.fixtures";
+import { timestampedSignatureVerifier } from "./lib/webhookVerifiers";
+import {
+  AUTO_DISABLE_AFTER_FAILED_DELIVERIES,
+  MAX_DELIVERY_ATTEMPTS,
+} from "./lib/outgoingWebhooks";
+
+const ENDPOINT_URL = "https://hooks.example.com/receive";
+
+async function setup() {
+  const { t, asUser } = await setupUsers();
+  const { endpointId, secret } = await asUser.mutation(
+    api.webhookEndpoints.create,
+    { url: ENDPOINT_URL, eventTypes: ["user.updated"] },
+  );
+  return { t, asUser, endpointId, secret };
+}
+
+async function updateUser(t: ReturnType<typeof convexTest>, updatedAt: number) {
+  await t.mutation(internal.users.upsertFromClerk, {
+    data: clerkUser({ first_name: "Augusta", updated_at: updatedAt }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("outgoing webhooks", () => {
+  test("delivers a signed event to subscribed endpoints", async () => {
+    const fetchMock = vi.fn(async () => new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { t, asUser, endpointId, secret } = await setup();
+
+    await updateUser(t, 1735776000000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe(ENDPOINT_URL);
+    const verification = await timestampedSignatureVerifier({
+      secretEnvVar: "UNUSED",
+      signatureHeader: "x-webhook-signature",
+    }).verify(new Request(url, init), secret);
+    expect(verification.ok).toBe(true);
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      type: "user.updated",
+      data: { id: "user_test123", name: "Augusta Lovelace" },
+    });
+
+    const [delivery] = await asUser.query(
+      api.webhookDeliveries.listForEndpoint,
+      { endpointId },
+    );
+    expect(delivery).toMatchObject({
+      status: "succeeded",
+      attempts: 1,
+      responseStatus: 200,
+    });
+  });
+
+  test("retries failed deliveries, then disables the endpoint", async () => {
+    const fetchMock = vi.fn(async () => new Response("nope", { status: 500 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { t, asUser, endpointId } = await setup();
+
+    for (let i = 1; i <= AUTO_DISABLE_AFTER_FAILED_DELIVERIES; i++) {
+      await updateUser(t, 1735776000000 + i);
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(
+      AUTO_DISABLE_AFTER_FAILED_DELIVERIES * MAX_DELIVERY_ATTEMPTS,
+    );
+    const deliveries = await asUser.query(
+      api.webhookDeliveries.listForEndpoint,
+      { endpointId },
+    );
+    expect(deliveries.map((delivery) => delivery.status)).toEqual(
+      Array(AUTO_DISABLE_AFTER_FAILED_DELIVERIES).fill("failed"),
+    );
+    const [endpoint] = await asUser.query(api.webhookEndpoints.list, {});
+    expect(endpoint.enabled).toBe(false);
+    expect(endpoint.disabledReason).toMatch(/failed deliveries/);
+  });
+
+  test("redelivers an event with the same event ID", async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { t, asUser, endpointId } = await setup();
+    await updateUser(t, 1735776000000);
+    const [original] = await asUser.query(
+      api.webhookDeliveries.listForEndpoint,
+      { endpointId },
+    );
+
+    await asUser.mutation(api.webhookDeliveries.redeliver, {
+      deliveryId: original._id,
+    });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const [redelivery] = await asUser.query(
+      api.webhookDeliveries.listForEndpoint,
+      { endpointId },
+    );
+    expect(redelivery).toMatchObject({
+      eventId: original.eventId,
+      redeliveryOf: original._id,
+      status: "succeeded",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("only accepts HTTPS endpoints", async () => {
+    const { asUser } = await setup();
+
+    await expect(
+      asUser.mutation(api.webhookEndpoints.create, {
+        url: "http://hooks.example.com/receive",
+        eventTypes: ["user.updated"],
+      }),
+    ).rejects.toThrow(/HTTPS/);
+  });
+
+  test("refuses local and private network endpoints", async () => {
+    const { asUser } = await setup();
+
+    for (const url of [
+      "https://localhost/receive",
+      "http://127.0.0.1:8080/receive",
+      "http://[::1]/receive",
+      "https://[::ffff:127.0.0.1]/receive",
+      "https://10.0.0.5/receive",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[fd00::1]/receive",
+    ]) {
+      await expect(
+        asUser.mutation(api.webhookEndpoints.create, {
+          url,
+          eventTypes: ["user.updated"],
+        }),
+      ).rejects.toThrow(/localhost|private network/);
+    }
+  });
+
+  test("only delivers to localhost while local endpoints are allowed", async () => {
+    const fetchMock = vi.fn(async () => new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    vi.stubEnv("ALLOW_LOCAL_WEBHOOK_ENDPOINTS", "1");
+    const { t, asUser } = await setup();
+    const { endpointId } = await asUser.mutation(api.webhookEndpoints.create, {
+      url: "http://localhost:3000/webhooks",
+      eventTypes: ["user.updated"],
+    });
+
+    vi.unstubAllEnvs();
+    await asUser.mutation(api.webhookEndpoints.sendTest, { endpointId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const [delivery] = await asUser.query(
+      api.webhookDeliveries.listForEndpoint,
+      { endpointId },
+    );
+    expect(delivery).toMatchObject({
+      status: "failed",
+      error: "Webhook endpoints can't be on localhost",
+    });
+  });
+
+  test("hides other users' endpoints", async () => {
+    const { t, endpointId } = await setup();
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ id: "user_other" }),
+    });
+    const asOther = t.withIdentity({ subject: "user_other" });
+
+    await expect(
+      asOther.query(api.webhookDeliveries.listForEndpoint, { endpointId }),
+    ).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,250 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { authedMutation, authedQuery } from "./lib/functions";
+import { InvalidInput, NotFound } from "./lib/errors";
+import { enforceRateLimit } from "./lib/rateLimit";
+import {
+  AUTO_DISABLE_AFTER_FAILED_DELIVERIES,
+  endpointUrlProblem,
+  MAX_DELIVERY_ATTEMPTS,
+  queueDelivery,
+  retryDelayMs,
+  SIGNATURE_HEADER,
+} from "./lib/outgoingWebhooks";
+import { hmacSha256 } from "./lib/webhookVerifiers";
+import { ownEndpoint } from "./webhookEndpoints";
+
+// A delivery attempt fails if the endpoint takes longer than this to respond
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Only the start of the response body is kept in the delivery log
+const MAX_RESPONSE_BODY_LENGTH = 500;
+
+/**
+ * The delivery log of one of the current user's endpoints, newest first.
+ */
+export const listForEndpoint = authedQuery({
+  args: { endpointId: v.id("webhookEndpoints"), limit: v.optional(v.number()) },
+  handler: async (ctx, { endpointId, limit }) => {
+    await ownEndpoint(ctx, endpointId);
+    return await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("byEndpointId", (q) => q.eq("endpointId", endpointId))
+      .order("desc")
+      .take(Math.min(limit ?? 20, 100));
+  },
+});
+
+/**
+ * Sends the same event again as a new delivery with its own attempts. The
+ * event ID is kept so receivers can tell it's a repeat.
+ */
+export const redeliver = authedMutation({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, { deliveryId }) => {
+    const delivery = await ctx.db.get(deliveryId);
+    if (delivery === null || delivery.userId !== ctx.user._id) {
+      throw new NotFound("Webhook delivery");
+    }
+    const endpoint = await ownEndpoint(ctx, delivery.endpointId);
+    if (!endpoint.enabled) {
+      throw new InvalidInput("Enable the endpoint before redelivering to it");
+    }
+    await enforceRateLimit(ctx, "sendWebhook", ctx.user._id);
+    return await queueDelivery(ctx, endpoint, {
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+      redeliveryOf: delivery._id,
+    });
+  },
+});
+
+export const deliver = internalAction({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  async handler(ctx, { deliveryId }) {
+    const target = await ctx.runQuery(
+      internal.webhookDeliveries.loadForAttempt,
+      { deliveryId },
+    );
+    if (target === null) {
+      return;
+    }
+    if (!target.enabled) {
+      await ctx.runMutation(internal.webhookDeliveries.abandon, {
+        deliveryId,
+        error: "Endpoint is disabled",
+      });
+      return;
+    }
+    // checked again in case the URL was accepted under other settings, e.g.
+    // a local endpoint while ALLOW_LOCAL_WEBHOOK_ENDPOINTS was set
+    const urlProblem = endpointUrlProblem(target.url);
+    if (urlProblem !== null) {
+      await ctx.runMutation(internal.webhookDeliveries.abandon, {
+        deliveryId,
+        error: urlProblem,
+      });
+      return;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await hmacSha256(
+      target.secret,
+      `${timestamp}.${target.payload}`,
+      "hex",
+    );
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let attempt: {
+      responseStatus?: number;
+      responseBody?: string;
+      error?: string;
+    };
+    try {
+      const response = await fetch(target.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Webhooks/1.0",
+          "x-webhook-id": target.eventId,
+          "x-webhook-event": target.eventType,
+          [SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+        },
+        body: target.payload,
+        signal: controller.signal,
+        redirect: "manual",
+      });
+      const body = await response.text().catch(() => "");
+      attempt = {
+        responseStatus: response.status,
+        responseBody: body.slice(0, MAX_RESPONSE_BODY_LENGTH) || undefined,
+        error: response.ok ? undefined : `Responded ${response.status}`,
+      };
+    } catch (error) {
+      attempt = {
+        error: controller.signal.aborted
+          ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+          : String(error),
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    await ctx.runMutation(internal.webhookDeliveries.recordAttempt, {
+      deliveryId,
+      ...attempt,
+    });
+  },
+});
+
+export const loadForAttempt = internalQuery({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  async handler(ctx, { deliveryId }) {
+    const delivery = await ctx.db.get(deliveryId);
+    if (delivery === null || delivery.status !== "pending") {
+      return null;
+    }
+    const endpoint = await ctx.db.get(delivery.endpointId);
+    if (endpoint === null) {
+      return null;
+    }
+    return {
+      url: endpoint.url,
+      secret: endpoint.secret,
+      enabled: endpoint.enabled,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+    };
+  },
+});
+
+/**
+ * Records the outcome of an attempt and either schedules the next one with
+ * exponential backoff or gives up. Giving up counts towards disabling the
+ * endpoint, a success resets that count.
+ */
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    responseStatus: v.optional(v.number()),
+    responseBody: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  async handler(ctx, { deliveryId, ...attempt }) {
+    const delivery = await ctx.db.get(deliveryId);
+    if (delivery === null || delivery.status !== "pending") {
+      return;
+    }
+    const endpoint = await ctx.db.get(delivery.endpointId);
+    const now = Date.now();
+    const attempts = delivery.attempts + 1;
+    const common = { ...attempt, attempts, lastAttemptAt: now };
+
+    if (attempt.error === undefined) {
+      await ctx.db.patch(deliveryId, {
+        ...common,
+        status: "succeeded",
+        nextAttemptAt: undefined,
+      });
+      if (endpoint !== null && endpoint.consecutiveFailures > 0) {
+        await ctx.db.patch(endpoint._id, { consecutiveFailures: 0 });
+      }
+      return;
+    }
+
+    if (attempts < MAX_DELIVERY_ATTEMPTS) {
+      const nextAttemptAt = now + retryDelayMs(attempts);
+      await ctx.db.patch(deliveryId, { ...common, nextAttemptAt });
+      await ctx.scheduler.runAt(
+        nextAttemptAt,
+        internal.webhookDeliveries.deliver,
+        { deliveryId },
+      );
+      return;
+    }
+
+    await ctx.db.patch(deliveryId, {
+      ...common,
+      status: "failed",
+      nextAttemptAt: undefined,
+    });
+    if (endpoint === null) {
+      return;
+    }
+    const consecutiveFailures = endpoint.consecutiveFailures + 1;
+    const disable =
+      endpoint.enabled &&
+      consecutiveFailures >= AUTO_DISABLE_AFTER_FAILED_DELIVERIES;
+    await ctx.db.patch(endpoint._id, {
+      consecutiveFailures,
+      ...(disable && {
+        enabled: false,
+        disabledReason: `Disabled after ${consecutiveFailures} failed deliveries`,
+      }),
+    });
+    if (disable) {
+      console.warn(`Disabled webhook endpoint ${endpoint._id}`, endpoint.url);
+    }
+  },
+});
+
+export const abandon = internalMutation({
+  args: { deliveryId: v.id("webhookDeliveries"), error: v.string() },
+  async handler(ctx, { deliveryId, error }) {
+    const delivery = await ctx.db.get(deliveryId);
+    if (delivery === null || delivery.status !== "pending") {
+      return;
+    }
+    await ctx.db.patch(deliveryId, {
+      status: "failed",
+      error,
+      nextAttemptAt: undefined,
+    });
+  },
+});
@@ -0,0 +1,174 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { authedMutation, authedQuery, AuthedQueryCtx } from "./lib/functions";
+import { InvalidInput, NotFound } from "./lib/errors";
+import { enforceRateLimit } from "./lib/rateLimit";
+import {
+  endpointUrlProblem,
+  generateSigningSecret,
+  newEventId,
+  outgoingEventTypeValidator,
+  queueDelivery,
+  TEST_EVENT_TYPE,
+} from "./lib/outgoingWebhooks";
+
+// Endpoints a single user may register
+const MAX_ENDPOINTS_PER_USER = 10;
+
+/**
+ * The current user's endpoints. Secrets are only returned when created or
+ * rotated, the list shows a prefix to tell them apart.
+ */
+export const list = authedQuery({
+  args: {},
+  handler: async (ctx) => {
+    const endpoints = await ctx.db
+      .query("webhookEndpoints")
+      .withIndex("byUserId", (q) => q.eq("userId", ctx.user._id))
+      .collect();
+    return endpoints.map(({ secret, ...endpoint }) => ({
+      ...endpoint,
+      secretPreview: `${secret.slice(0, 10)}…`,
+    }));
+  },
+});
+
+export const create = authedMutation({
+  args: {
+    url: v.string(),
+    description: v.optional(v.string()),
+    eventTypes: v.array(outgoingEventTypeValidator),
+  },
+  handler: async (ctx, { url, description, eventTypes }) => {
+    const existing = await ctx.db
+      .query("webhookEndpoints")
+      .withIndex("byUserId", (q) => q.eq("userId", ctx.user._id))
+      .take(MAX_ENDPOINTS_PER_USER);
+    if (existing.length >= MAX_ENDPOINTS_PER_USER) {
+      throw new InvalidInput(
+        `You can register up to ${MAX_ENDPOINTS_PER_USER} endpoints`,
+      );
+    }
+    await enforceRateLimit(ctx, "createWebhookEndpoint", ctx.user._id);
+    const secret = generateSigningSecret();
+    const endpointId = await ctx.db.insert("webhookEndpoints", {
+      userId: ctx.user._id,
+      ...validEndpointFields({ url, description, eventTypes }),
+      secret,
+      enabled: true,
+      consecutiveFailures: 0,
+    });
+    return { endpointId, secret };
+  },
+});
+
+export const update = authedMutation({
+  args: {
+    endpointId: v.id("webhookEndpoints"),
+    url: v.string(),
+    description: v.optional(v.string()),
+    eventTypes: v.array(outgoingEventTypeValidator),
+  },
+  handler: async (ctx, { endpointId, ...fields }) => {
+    await ownEndpoint(ctx, endpointId);
+    await ctx.db.patch(endpointId, validEndpointFields(fields));
+  },
+});
+
+/**
+ * Turns delivery on or off. Enabling also clears the failure count, so an
+ * endpoint disabled automatically gets a fresh start.
+ */
+export const setEnabled = authedMutation({
+  args: { endpointId: v.id("webhookEndpoints"), enabled: v.boolean() },
+  handler: async (ctx, { endpointId, enabled }) => {
+    await ownEndpoint(ctx, endpointId);
+    await ctx.db.patch(
+      endpointId,
+      enabled
+        ? { enabled, disabledReason: undefined, consecutiveFailures: 0 }
+        : { enabled, disabledReason: "Disabled by you" },
+    );
+  },
+});
+
+export const rotateSecret = authedMutation({
+  args: { endpointId: v.id("webhookEndpoints") },
+  handler: async (ctx, { endpointId }) => {
+    await ownEndpoint(ctx, endpointId);
+    const secret = generateSigningSecret();
+    await ctx.db.patch(endpointId, { secret });
+    return { secret };
+  },
+});
+
+export const remove = authedMutation({
+  args: { endpointId: v.id("webhookEndpoints") },
+  handler: async (ctx, { endpointId }) => {
+    await ownEndpoint(ctx, endpointId);
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("byEndpointId", (q) => q.eq("endpointId", endpointId))
+      .collect();
+    for (const delivery of deliveries) {
+      await ctx.db.delete(delivery._id);
+    }
+    await ctx.db.delete(endpointId);
+  },
+});
+
+/**
+ * Sends a `webhook.test` event to the endpoint, whatever it subscribes to.
+ */
+export const sendTest = authedMutation({
+  args: { endpointId: v.id("webhookEndpoints") },
+  handler: async (ctx, { endpointId }) => {
+    const endpoint = await ownEndpoint(ctx, endpointId);
+    if (!endpoint.enabled) {
+      throw new InvalidInput("Enable the endpoint before sending events to it");
+    }
+    await enforceRateLimit(ctx, "sendWebhook", ctx.user._id);
+    const event = {
+      id: newEventId(),
+      type: TEST_EVENT_TYPE,
+      createdAt: Date.now(),
+      data: { endpointId },
+    };
+    return await queueDelivery(ctx, endpoint, {
+      eventId: event.id,
+      eventType: event.type,
+      payload: JSON.stringify(event),
+    });
+  },
+});
+
+export async function ownEndpoint(
+  ctx: AuthedQueryCtx,
+  endpointId: Id<"webhookEndpoints">,
+) {
+  const endpoint = await ctx.db.get(endpointId);
+  if (endpoint === null || endpoint.userId !== ctx.user._id) {
+    throw new NotFound("Webhook endpoint");
+  }
+  return endpoint;
+}
+
+function validEndpointFields({
+  url,
+  description,
+  eventTypes,
+}: Pick<Doc<"webhookEndpoints">, "url" | "description" | "eventTypes">) {
+  const trimmedUrl = url.trim();
+  const problem = endpointUrlProblem(trimmedUrl);
+  if (problem !== null) {
+    throw new InvalidInput(problem);
+  }
+  if (eventTypes.length === 0) {
+    throw new InvalidInput("Choose at least one event type");
+  }
+  return {
+    url: trimmedUrl,
+    description: description?.trim() || undefined,
+    eventTypes: [...new Set(eventTypes)],
+  };
+}
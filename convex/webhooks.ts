@@ -0,0 +1,100 @@
+import { internalMutation, QueryCtx } from "./_generated/server";
+import { Infer, v } from "convex/values";
+import { webhookEventStatus } from "./schema";
+
+export type WebhookEventStatus = Infer<typeof webhookEventStatus>;
+
+// A delivery still marked "processing" after this long is assumed to have
+// crashed mid-way and may be claimed again by a retry.
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+/**
+ * Records a delivery and reports whether the caller should process it.
+ * Returns false for deliveries that were already handled or are in flight.
+ */
+export const claim = internalMutation({
+  args: { source: v.string(), deliveryId: v.string(), eventType: v.string() },
+  async handler(ctx, { source, deliveryId, eventType }) {
+    const now = Date.now();
+    const existing = await webhookEventByDeliveryId(ctx, source, deliveryId);
+    if (existing === null) {
+      await ctx.db.insert("webhookEvents", {
+        source,
+        deliveryId,
+        eventType,
+        status: "processing",
+        attempts: 1,
+        receivedAt: now,
+        lastAttemptAt: now,
+      });
+      return true;
+    }
+
+    const retryable =
+      existing.status === "failed" ||
+      (existing.status === "processing" &&
+        now - existing.lastAttemptAt > STALE_PROCESSING_MS);
+    if (!retryable) {
+      return false;
+    }
+    await ctx.db.patch(existing._id, {
+      status: "processing",
+      attempts: existing.attempts + 1,
+      lastAttemptAt: now,
+      detail: undefined,
+    });
+    return true;
+  },
+});
+
+export const finish = internalMutation({
+  args: {
+    source: v.string(),
+    deliveryId: v.string(),
+    status: webhookEventStatus,
+    detail: v.optional(v.string()),
+  },
+  async handler(ctx, { source, deliveryId, status, detail }) {
+    const existing = await webhookEventByDeliveryId(ctx, source, deliveryId);
+    if (existing === null) {
+      console.warn(
+        `Can't finish webhook event, none for ${source} ${deliveryId}`,
+      );
+      return;
+    }
+    await ctx.db.patch(existing._id, {
+      status,
+      detail,
+      processedAt: Date.now(),
+    });
+  },
+});
+
+export const recordMalformed = internalMutation({
+  args: {
+    source: v.string(),
+    eventType: v.string(),
+    deliveryId: v.optional(v.string()),
+    reason: v.string(),
+    payload: v.string(),
+  },
+  async handler(ctx, args) {
+    await ctx.db.insert("malformedWebhookEvents", {
+      ...args,
+      receivedAt: Date.now(),
+    });
+  },
+});
+
+async function webhookEventByDeliveryId(
+  ctx: QueryCtx,
+  source: string,
+  deliveryId: string,
+) {
+  return await ctx.db
+    .query("webhookEvents")
+    .withIndex("bySourceAndDeliveryId", (q) =>
+      q.eq("source", source).eq("deliveryId", deliveryId),
+    )
+    .unique();
+}
@@ -0,0 +1,60 @@
+"use client";
+import { useEffect, useState } from "react";
+import { useConvexAuth, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// 1s, 2s, 4s… up to 30s between attempts
+function retryDelay(failures: number) {
+  return Math.min(1000 * 2 ** failures, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Makes sure the signed-in user has a row in the `users` table, creating it
+ * from the JWT claims when the Clerk webhook hasn't arrived yet. Runs once per
+ * sign-in, retrying with backoff until it succeeds, since the queries waiting
+ * on `userId` stay skipped until then. `userId` is null for users deleted in
+ * Clerk.
+ */
+export function useEnsureCurrentUser() {
+  const { isLoading, isAuthenticated } = useConvexAuth();
+  const ensureCurrent = useMutation(api.users.ensureCurrent);
+  const [ensured, setEnsured] = useState<{ userId: Id<"users"> | null }>();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+    let cancelled = false;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    const attempt = (failures: number) => {
+      ensureCurrent()
+        .then((userId) => {
+          if (!cancelled) setEnsured({ userId });
+        })
+        .catch((error) => {
+          console.error("Failed to ensure current user", error);
+          if (!cancelled) {
+            retry = setTimeout(
+              () => attempt(failures + 1),
+              retryDelay(failures),
+            );
+          }
+        });
+    };
+    attempt(0);
+    return () => {
+      cancelled = true;
+      clearTimeout(retry);
+      setEnsured(undefined);
+    };
+  }, [isAuthenticated, ensureCurrent]);
+
+  return {
+    isLoading: isLoading || (isAuthenticated && ensured === undefined),
+    isAuthenticated,
+    userId: ensured?.userId ?? null,
+  };
+}
@@ -0,0 +1,12 @@
+import { ConvexError } from 'convex/values'
+
+/**
+ * A message to show the user for an error thrown by a Convex function. Only
+ * `ConvexError`s carry messages meant for users, anything else is a bug.
+ */
+export function errorMessage(error: unknown) {
+  if (error instanceof ConvexError && typeof error.data?.message === 'string') {
+    return error.data.message as string
+  }
+  return 'Something went wrong, please try again'
+}
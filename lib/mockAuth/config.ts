@@ -0,0 +1,59 @@
+import type { Role } from '@/convex/lib/roles'
+
+// Set NEXT_PUBLIC_AUTH_MODE=mock to replace Clerk with local mock users, see
+// "Offline Development" in the README.
+export const isMockAuth = process.env.NEXT_PUBLIC_AUTH_MODE === 'mock'
+
+// hold the ID of the signed-in mock user and of their mock Clerk session
+export const MOCK_AUTH_COOKIE = 'mock-auth-user'
+export const MOCK_SESSION_COOKIE = 'mock-auth-session'
+
+export type MockUser = {
+  // shaped like a Clerk user ID so it lands in `users.externalId` the same way
+  id: string
+  firstName: string | null
+  lastName: string | null
+  username: string | null
+  email: string
+  role: Role
+  orgId?: string
+}
+
+export const MOCK_USERS: MockUser[] = [
+  {
+    id: 'user_mock_owner',
+    firstName: 'Olivia',
+    lastName: 'Owner',
+    username: 'olivia',
+    email: 'olivia@example.com',
+    role: 'owner',
+  },
+  {
+    id: 'user_mock_admin',
+    firstName: 'Adam',
+    lastName: 'Admin',
+    username: 'adam',
+    email: 'adam@example.com',
+    role: 'admin',
+  },
+  {
+    id: 'user_mock_member',
+    firstName: 'Mia',
+    lastName: 'Member',
+    username: null,
+    email: 'mia@example.com',
+    role: 'member',
+  },
+  {
+    id: 'user_mock_viewer',
+    firstName: null,
+    lastName: null,
+    username: null,
+    email: 'victor@example.com',
+    role: 'viewer',
+  },
+]
+
+export function findMockUser(id: string | undefined) {
+  return MOCK_USERS.find((user) => user.id === id) ?? null
+}
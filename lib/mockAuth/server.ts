@@ -0,0 +1,150 @@
+import { Webhook } from 'svix'
+import { MockUser } from './config'
+
+const TOKEN_TTL_SECONDS = 60 * 60
+
+/**
+ * Signs a Convex-compatible RS256 JWT for the mock user with the private key
+ * from MOCK_AUTH_PRIVATE_JWK. Convex accepts it through the TEST_JWT_ISSUER
+ * provider in `convex/auth.config.ts`.
+ */
+export async function signMockToken(user: MockUser) {
+  const jwk = JSON.parse(requireEnv('MOCK_AUTH_PRIVATE_JWK')) as JsonWebKey & {
+    kid?: string
+  }
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+
+  const now = Math.floor(Date.now() / 1000)
+  const header = { alg: 'RS256', typ: 'JWT', kid: jwk.kid }
+  const payload = {
+    iss: requireEnv('TEST_JWT_ISSUER'),
+    aud: 'convex',
+    sub: user.id,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    name: [user.firstName, user.lastName].filter(Boolean).join(' ') || undefined,
+    given_name: user.firstName ?? undefined,
+    family_name: user.lastName ?? undefined,
+    nickname: user.username ?? undefined,
+    email: user.email,
+    email_verified: true,
+    metadata: { role: user.role },
+  }
+
+  const signingInput = [header, payload]
+    .map((part) => base64url(JSON.stringify(part)))
+    .join('.')
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    new TextEncoder().encode(signingInput),
+  )
+  return `${signingInput}.${base64url(new Uint8Array(signature))}`
+}
+
+/**
+ * Sends a Clerk-shaped webhook event, signed with CLERK_WEBHOOK_SECRET, to the
+ * Convex `/clerk-users-webhook` route so the real sync path runs locally.
+ */
+export async function emitMockWebhook(type: string, data: object) {
+  const payload = JSON.stringify({ type, object: 'event', data })
+  const msgId = `msg_mock_${crypto.randomUUID()}`
+  const timestamp = new Date()
+  const signature = new Webhook(requireEnv('CLERK_WEBHOOK_SECRET')).sign(
+    msgId,
+    timestamp,
+    payload,
+  )
+
+  const response = await fetch(webhookUrl(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'svix-id': msgId,
+      'svix-timestamp': String(Math.floor(timestamp.getTime() / 1000)),
+      'svix-signature': signature,
+    },
+    body: payload,
+  })
+  if (!response.ok) {
+    console.error(
+      `Mock ${type} webhook failed with ${response.status}: ${await response.text()}`,
+    )
+  }
+}
+
+export function mockClerkUser(user: MockUser, now = Date.now()) {
+  const emailId = `idn_${user.id}`
+  return {
+    object: 'user',
+    id: user.id,
+    first_name: user.firstName,
+    last_name: user.lastName,
+    username: user.username,
+    image_url: '',
+    primary_email_address_id: emailId,
+    email_addresses: [
+      {
+        object: 'email_address',
+        id: emailId,
+        email_address: user.email,
+        verification: { status: 'verified' },
+      },
+    ],
+    public_metadata: { role: user.role },
+    created_at: now,
+    updated_at: now,
+    last_sign_in_at: now,
+  }
+}
+
+export function mockClerkSession(
+  user: MockUser,
+  sessionId: string,
+  status: 'active' | 'ended',
+  now = Date.now(),
+) {
+  return {
+    object: 'session',
+    id: sessionId,
+    user_id: user.id,
+    status,
+    latest_activity: {
+      device_type: 'Mock device',
+      is_mobile: false,
+      browser_name: 'Mock browser',
+      ip_address: '127.0.0.1',
+    },
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+// Defaults to the HTTP actions URL of NEXT_PUBLIC_CONVEX_URL, override with
+// MOCK_AUTH_WEBHOOK_URL e.g. for a local Convex backend.
+function webhookUrl() {
+  if (process.env.MOCK_AUTH_WEBHOOK_URL) {
+    return process.env.MOCK_AUTH_WEBHOOK_URL
+  }
+  const convexUrl = requireEnv('NEXT_PUBLIC_CONVEX_URL')
+  return `${convexUrl.replace(/\.convex\.cloud\/?$/, '.convex.site')}/clerk-users-webhook`
+}
+
+function base64url(input: string | Uint8Array) {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input
+  return Buffer.from(bytes).toString('base64url')
+}
+
+function requireEnv(name: string) {
+  const value = process.env[name]
+  if (!value) {
+    throw new Error(`Missing ${name}, required when NEXT_PUBLIC_AUTH_MODE=mock`)
+  }
+  return value
+}
@@ -0,0 +1,47 @@
+import { hasRole, type Role } from '@/convex/lib/roles'
+
+export type RouteAccess =
+  // anyone, signed in or not
+  | { access: 'public' }
+  // any signed-in user
+  | { access: 'authenticated' }
+  // signed-in users with at least this role
+  | { access: 'role'; role: Role }
+  // signed-in users with an active Clerk organization
+  | { access: 'organization' }
+
+export type RoutePolicy = RouteAccess & {
+  // patterns accepted by Clerk's `createRouteMatcher`
+  routes: string[]
+}
+
+// First match wins. Routes not listed here require a signed-in user.
+export const routePolicies: RoutePolicy[] = [
+  { routes: ['/', '/forbidden', '/suspended'], access: 'public' },
+  // mock auth endpoints check the session themselves
+  { routes: ['/api/mock-auth(.*)'], access: 'public' },
+  { routes: ['/admin(.*)'], access: 'role', role: 'admin' },
+  { routes: ['/org(.*)'], access: 'organization' },
+  { routes: ['/dashboard(.*)'], access: 'authenticated' },
+]
+
+export const defaultRouteAccess: RouteAccess = { access: 'authenticated' }
+
+export type RouteDecision = 'allow' | 'sign-in' | 'forbidden'
+
+/**
+ * Applies a route's access rule to the current session, shared by the Clerk
+ * and mock auth variants of `proxy.ts`.
+ */
+export function decideRouteAccess(
+  route: RouteAccess,
+  session: { userId: string | null; role: Role; orgId?: string | null },
+): RouteDecision {
+  if (route.access === 'public') return 'allow'
+  if (!session.userId) return 'sign-in'
+  if (route.access === 'role' && !hasRole(session.role, route.role)) {
+    return 'forbidden'
+  }
+  if (route.access === 'organization' && !session.orgId) return 'forbidden'
+  return 'allow'
+}
@@ -0,0 +1,18 @@
+import { fetchQuery } from 'convex/nextjs'
+import { api } from '@/convex/_generated/api'
+
+/**
+ * Whether the user the Convex token from `getToken` belongs to is suspended,
+ * for the mock auth proxy, whose users have no Clerk metadata. Fails open, so an unreachable deployment doesn't lock
+ * everyone out; the Convex functions enforce suspensions themselves.
+ */
+export async function isSuspended(getToken: () => Promise<string | null>) {
+  try {
+    const token = await getToken()
+    if (!token) return false
+    return (await fetchQuery(api.suspensions.current, {}, { token })) !== null
+  } catch (error) {
+    console.error('Could not check whether the user is suspended', error)
+    return false
+  }
+}
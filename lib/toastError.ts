@@ -0,0 +1,15 @@
+import { toast } from 'sonner'
+import { isRateLimited } from '@/convex/lib/errors'
+import { errorMessage } from './errorMessage'
+
+/**
+ * Shows an error thrown by a Convex function in the `Toaster`. Rate limit
+ * errors reuse a single toast, so hammering a button doesn't stack them.
+ */
+export function toastError(error: unknown) {
+  if (isRateLimited(error)) {
+    toast.warning(error.data.message, { id: 'rate-limited' })
+    return
+  }
+  toast.error(errorMessage(error))
+}
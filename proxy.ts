@@ -1,13 +1,85 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  decideRouteAccess,
+  defaultRouteAccess,
+  routePolicies,
+} from '@/lib/routePolicies'
+import { roleFromMetadata } from '@/convex/lib/roles'
+import { suspendedFromMetadata } from '@/convex/lib/suspension'
+import { findMockUser, isMockAuth, MOCK_AUTH_COOKIE } from '@/lib/mockAuth/config'
+import { signMockToken } from '@/lib/mockAuth/server'
+import { isSuspended } from '@/lib/suspension'
 
-const isPublicRoute = createRouteMatcher(['/'])
+const policyMatchers = routePolicies.map((policy) => ({
+  policy,
+  matches: createRouteMatcher(policy.routes),
+}))
 
-export default clerkMiddleware(async (auth, req) => {
-  if (!isPublicRoute(req)) {
-    await auth.protect()
+function routeAccessFor(req: NextRequest) {
+  return (
+    policyMatchers.find(({ matches }) => matches(req))?.policy ??
+    defaultRouteAccess
+  )
+}
+
+const clerkProxy = clerkMiddleware(async (auth, req) => {
+  const route = routeAccessFor(req)
+  if (route.access === 'public') {
+    return
+  }
+
+  const { userId, orgId, sessionClaims, redirectToSignIn } = await auth()
+  const decision = decideRouteAccess(route, {
+    userId,
+    orgId,
+    role: roleFromMetadata(sessionClaims?.metadata),
+  })
+  if (decision === 'sign-in') {
+    return redirectToSignIn({ returnBackUrl: req.url })
+  }
+  if (decision === 'forbidden') {
+    return forbidden(req)
+  }
+  if (suspendedFromMetadata(sessionClaims?.metadata)) {
+    return suspended(req)
   }
 })
 
+// Same policies, with the session read from the mock auth cookie
+async function mockProxy(req: NextRequest) {
+  const route = routeAccessFor(req)
+  const user = findMockUser(req.cookies.get(MOCK_AUTH_COOKIE)?.value)
+  const decision = decideRouteAccess(route, {
+    userId: user?.id ?? null,
+    orgId: user?.orgId,
+    role: user?.role ?? 'viewer',
+  })
+  if (decision === 'sign-in') {
+    return NextResponse.redirect(new URL('/', req.url))
+  }
+  if (decision === 'forbidden') {
+    return forbidden(req)
+  }
+  if (
+    route.access !== 'public' &&
+    user &&
+    (await isSuspended(() => signMockToken(user)))
+  ) {
+    return suspended(req)
+  }
+}
+
+function forbidden(req: Request) {
+  return NextResponse.rewrite(new URL('/forbidden', req.url), { status: 403 })
+}
+
+function suspended(req: Request) {
+  return NextResponse.redirect(new URL('/suspended', req.url))
+}
+
+export default isMockAuth ? mockProxy : clerkProxy
+
 export const config = {
   matcher: [
     // Skip Next.js internals and all static files, unless found in search params
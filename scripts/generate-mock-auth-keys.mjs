@@ -0,0 +1,24 @@
+// Generates the RS256 key pair used by mock auth mode and prints the
+// environment variables to set. Run with `npm run mock-auth:keys`.
+import { generateKeyPairSync, randomUUID } from 'node:crypto'
+
+const issuer = process.argv[2] ?? 'http://localhost:3000/api/mock-auth'
+const kid = randomUUID()
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+})
+const privateJwk = { ...privateKey.export({ format: 'jwk' }), kid, alg: 'RS256' }
+const publicJwk = { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }
+const jwks = JSON.stringify({ keys: [publicJwk] })
+
+console.log('# .env.local (Next.js)')
+console.log('NEXT_PUBLIC_AUTH_MODE=mock')
+console.log(`TEST_JWT_ISSUER=${issuer}`)
+console.log(`MOCK_AUTH_PRIVATE_JWK='${JSON.stringify(privateJwk)}'`)
+console.log()
+console.log('# Convex deployment environment variables')
+console.log(`TEST_JWT_ISSUER=${issuer}`)
+console.log(
+  `TEST_JWT_JWKS=data:text/plain;charset=utf-8;base64,${Buffer.from(jwks).toString('base64')}`,
+)
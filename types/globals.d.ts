@@ -0,0 +1,13 @@
+import type { Role } from '@/convex/lib/roles'
+
+export {}
+
+declare global {
+  // Requires the Clerk session token to be customized with
+  // { "metadata": "{{user.public_metadata}}" }
+  interface CustomJwtSessionClaims {
+    metadata?: {
+      role?: Role
+    }
+  }
+}